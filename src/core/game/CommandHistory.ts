@@ -0,0 +1,83 @@
+/**
+ * Command History for MetroMap.io
+ * Bounded undo/redo stacks of builder actions paired with their inverses.
+ * Pure TypeScript with no renderer dependencies.
+ */
+
+import type { GameAction, GameActionType } from "../interfaces/types";
+import { UNDO_HISTORY_LIMIT } from "./config";
+
+/**
+ * A completed action and the actions that undo and redo it
+ * Both are replayed through GameController.dispatch, so money is charged or
+ * refunded exactly as it was the first time
+ */
+export interface HistoryEntry {
+  type: GameActionType; // The action the user originally dispatched
+  undo: GameAction;
+  redo: GameAction;
+}
+
+export class CommandHistory {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+
+  constructor(private limit: number = UNDO_HISTORY_LIMIT) {}
+
+  /**
+   * Record a new action; this discards anything that could be redone
+   */
+  record(entry: HistoryEntry): void {
+    this.undoStack.push(entry);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+  }
+
+  /**
+   * Get the entry the next undo would revert
+   */
+  peekUndo(): HistoryEntry | undefined {
+    return this.undoStack[this.undoStack.length - 1];
+  }
+
+  /**
+   * Get the entry the next redo would re-apply
+   */
+  peekRedo(): HistoryEntry | undefined {
+    return this.redoStack[this.redoStack.length - 1];
+  }
+
+  /**
+   * Move the latest entry onto the redo stack after it was undone
+   */
+  markUndone(): void {
+    const entry = this.undoStack.pop();
+    if (entry) this.redoStack.push(entry);
+  }
+
+  /**
+   * Move the latest undone entry back onto the undo stack after it was redone
+   */
+  markRedone(): void {
+    const entry = this.redoStack.pop();
+    if (entry) this.undoStack.push(entry);
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Forget all history (e.g. when the simulation starts)
+   */
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
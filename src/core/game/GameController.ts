@@ -14,12 +14,17 @@ import {
   type GameState,
 } from "./models/GameState";
 import type { MapGrid } from "./models/MapGrid";
-import type { MetroLine } from "./models/MetroLine";
+import type { MetroLine, StopPattern } from "./models/MetroLine";
+import { getTrainBranch } from "./models/MetroLine";
+import type { Station } from "./models/Station";
+import type { Train, TrainTypeId } from "./models/Train";
 import { StationManager } from "./managers/StationManager";
-import { LineManager } from "./managers/LineManager";
-import { TrainManager } from "./managers/TrainManager";
-import { initializeTrains, updateTrains } from "./simulation/TrainMovement";
-import { updatePassengerSpawning } from "./simulation/PassengerSpawner";
+import { LineManager, type LineEnd } from "./managers/LineManager";
+import { TrainManager, type TrainPurchase } from "./managers/TrainManager";
+import { SimulationEngine } from "./simulation/SimulationEngine";
+import { NetworkGraph } from "./pathfinding/NetworkGraph";
+import { reroutePassengers } from "./simulation/PassengerRouting";
+import { CommandHistory, type HistoryEntry } from "./CommandHistory";
 
 /**
  * State change listener type
@@ -32,17 +37,24 @@ export type StateChangeListener = (state: Readonly<GameState>) => void;
 export class GameController {
   private state: GameState;
   private listeners: Set<StateChangeListener> = new Set();
+  private history: CommandHistory = new CommandHistory();
 
   // Managers
   private stationManager: StationManager;
   private lineManager: LineManager;
   private trainManager: TrainManager;
 
+  // Simulation
+  private networkGraph: NetworkGraph;
+  private simulationEngine: SimulationEngine;
+
   constructor(seed: number, map: MapGrid) {
     this.state = createGameState(seed, map);
     this.stationManager = new StationManager(this.state);
     this.lineManager = new LineManager(this.state);
     this.trainManager = new TrainManager(this.state);
+    this.networkGraph = new NetworkGraph(this.state);
+    this.simulationEngine = new SimulationEngine(this.state, this.networkGraph);
   }
 
   // ========================================================================
@@ -62,40 +74,45 @@ export class GameController {
   static loadSaved(): GameController | null {
     const savedState = loadGameState();
     if (!savedState) return null;
+    return GameController.fromState(savedState);
+  }
 
-    const controller = new GameController(savedState.seed, savedState.map);
-    controller.state = savedState;
-    // Re-initialize managers with loaded state
-    controller.stationManager = new StationManager(controller.state);
-    controller.lineManager = new LineManager(controller.state);
-    controller.trainManager = new TrainManager(controller.state);
+  /**
+   * Take control of an existing game state (e.g. one handed between screens)
+   */
+  static fromState(state: GameState): GameController {
+    const controller = new GameController(state.seed, state.map);
+    controller.attachState(state);
     return controller;
   }
 
+  /**
+   * Point the managers and simulation at a new game state
+   */
+  private attachState(state: GameState): void {
+    this.state = state;
+    this.stationManager = new StationManager(state);
+    this.lineManager = new LineManager(state);
+    this.trainManager = new TrainManager(state);
+    this.networkGraph = new NetworkGraph(state);
+    this.simulationEngine = new SimulationEngine(state, this.networkGraph);
+  }
+
   // ========================================================================
   // Main Update Loop
   // ========================================================================
 
   /**
    * Main update loop - called by renderer
-   * @param deltaMs - Delta time in milliseconds
+   * @param deltaMs - Real delta time in milliseconds
    */
   update(deltaMs: number): void {
-    if (this.state.isPaused) return;
-
-    // Convert ms to seconds for simulation
-    const deltaSeconds = (deltaMs * this.state.speed) / 1000;
+    const ticks = this.simulationEngine.advance(deltaMs);
 
-    // Update simulation time
-    const gameTimeDelta = deltaSeconds * 1000;
-    this.state.simulationTime += gameTimeDelta;
-
-    // Run simulation systems
-    updatePassengerSpawning(this.state, deltaSeconds);
-    updateTrains(this.state, deltaSeconds);
-
-    // Notify listeners
-    this.notifyListeners();
+    // Notify listeners only if the simulation actually moved
+    if (ticks > 0) {
+      this.notifyListeners();
+    }
   }
 
   // ========================================================================
@@ -106,11 +123,31 @@ export class GameController {
    * Dispatch a game action
    */
   dispatch(action: GameAction): ActionResult {
+    if (action.type === "UNDO") return this.dispatchUndo();
+    if (action.type === "REDO") return this.dispatchRedo();
+
+    // Capture what is needed to revert the action before it runs
+    const createEntry = this.prepareHistoryEntry(action);
+    const result = this.applyAction(action);
+    if (result.success && createEntry) {
+      this.history.record(createEntry(result));
+    }
+    return result;
+  }
+
+  /**
+   * Run an action against the game state without touching the history
+   */
+  private applyAction(action: GameAction): ActionResult {
     switch (action.type) {
       case "PLACE_STATION":
         return this.dispatchPlaceStation(action.payload);
       case "REMOVE_STATION":
         return this.dispatchRemoveStation(action.payload);
+      case "MOVE_STATION":
+        return this.dispatchMoveStation(action.payload);
+      case "RENAME_STATION":
+        return this.dispatchRenameStation(action.payload);
       case "START_LINE":
         return this.dispatchStartLine(action.payload);
       case "ADD_STATION_TO_LINE":
@@ -119,16 +156,38 @@ export class GameController {
         return this.dispatchCompleteLine();
       case "CANCEL_LINE":
         return this.dispatchCancelLine();
+      case "DELETE_LINE":
+        return this.dispatchDeleteLine(action.payload);
+      case "EXTEND_LINE":
+        return this.dispatchExtendLine(action.payload);
+      case "INSERT_STATION_IN_LINE":
+        return this.dispatchInsertStationInLine(action.payload);
+      case "REMOVE_STATION_FROM_LINE":
+        return this.dispatchRemoveStationFromLine(action.payload);
+      case "ADD_BRANCH":
+        return this.dispatchAddBranch(action.payload);
+      case "REMOVE_BRANCH":
+        return this.dispatchRemoveBranch(action.payload);
+      case "TOGGLE_EXPRESS_STOP":
+        return this.dispatchToggleExpressStop(action.payload);
       case "ADD_TRAIN":
         return this.dispatchAddTrain(action.payload);
       case "REMOVE_TRAIN":
         return this.dispatchRemoveTrain(action.payload);
+      case "SET_TRAIN_COUNT":
+        return this.dispatchSetTrainCount(action.payload);
       case "PAUSE":
         return this.dispatchPause();
       case "RESUME":
         return this.dispatchResume();
       case "SET_SPEED":
         return this.dispatchSetSpeed(action.payload);
+      case "RESET_GAME":
+        return this.dispatchResetGame();
+      case "RESTORE_STATION":
+        return this.dispatchRestoreStation(action.payload);
+      case "RESTORE_LINE":
+        return this.dispatchRestoreLine(action.payload);
       default:
         return { success: false, error: `Unknown action` };
     }
@@ -141,6 +200,7 @@ export class GameController {
     };
     const result = this.stationManager.placeStation(vertexX, vertexY);
     if (result.success) {
+      this.onNetworkChanged();
       this.notifyListeners();
     }
     return result;
@@ -150,6 +210,41 @@ export class GameController {
     const { stationId } = payload as { stationId: string };
     const result = this.stationManager.removeStation(stationId);
     if (result.success) {
+      this.onNetworkChanged();
+      this.notifyListeners();
+    }
+    return result;
+  }
+
+  private dispatchMoveStation(payload: unknown): ActionResult {
+    const { stationId, vertexX, vertexY } = payload as {
+      stationId: string;
+      vertexX: number;
+      vertexY: number;
+    };
+    const result = this.stationManager.moveStation(stationId, vertexX, vertexY);
+    if (result.success) {
+      // Track lengths (and so travel times) changed
+      this.onNetworkChanged();
+      this.notifyListeners();
+    }
+    return result;
+  }
+
+  private dispatchRenameStation(payload: unknown): ActionResult {
+    const { stationId, name } = payload as { stationId: string; name: string };
+    const result = this.stationManager.renameStation(stationId, name);
+    if (result.success) {
+      this.notifyListeners();
+    }
+    return result;
+  }
+
+  private dispatchRestoreStation(payload: unknown): ActionResult {
+    const { station, index } = payload as { station: Station; index: number };
+    const result = this.stationManager.restoreStation(station, index);
+    if (result.success) {
+      this.onNetworkChanged();
       this.notifyListeners();
     }
     return result;
@@ -179,6 +274,7 @@ export class GameController {
       // Add initial train to the line
       const line = result.data as MetroLine;
       this.trainManager.addTrainToLine(line.id);
+      this.onNetworkChanged();
       this.notifyListeners();
     }
     return result;
@@ -190,10 +286,150 @@ export class GameController {
     return { success: true };
   }
 
-  private dispatchAddTrain(payload: unknown): ActionResult {
+  private dispatchDeleteLine(payload: unknown): ActionResult {
     const { lineId } = payload as { lineId: string };
-    const result = this.trainManager.addTrainToLine(lineId);
+    const result = this.lineManager.deleteLine(lineId);
     if (result.success) {
+      // Journeys that used the line have to be re-planned
+      this.onNetworkChanged();
+      this.notifyListeners();
+    }
+    return result;
+  }
+
+  private dispatchExtendLine(payload: unknown): ActionResult {
+    const { lineId, stationId, end } = payload as {
+      lineId: string;
+      stationId: string;
+      end: LineEnd;
+    };
+    const result = this.lineManager.extendLine(lineId, stationId, end);
+    if (result.success) {
+      this.onNetworkChanged();
+      this.notifyListeners();
+    }
+    return result;
+  }
+
+  private dispatchInsertStationInLine(payload: unknown): ActionResult {
+    const { lineId, stationId, index, expressStationIds } = payload as {
+      lineId: string;
+      stationId: string;
+      index: number;
+      expressStationIds?: string[];
+    };
+    const result = this.lineManager.insertStation(
+      lineId,
+      stationId,
+      index,
+      expressStationIds,
+    );
+    if (result.success) {
+      this.onNetworkChanged();
+      this.notifyListeners();
+    }
+    return result;
+  }
+
+  private dispatchRemoveStationFromLine(payload: unknown): ActionResult {
+    const { lineId, stationId } = payload as {
+      lineId: string;
+      stationId: string;
+    };
+    const result = this.lineManager.removeStationFromLine(lineId, stationId);
+    if (result.success) {
+      // Journeys through the removed stop have to be re-planned
+      this.onNetworkChanged();
+      this.notifyListeners();
+    }
+    return result;
+  }
+
+  private dispatchAddBranch(payload: unknown): ActionResult {
+    const {
+      lineId,
+      fromStationId,
+      stationIds,
+      branchId,
+      trainIds,
+      expressStationIds,
+    } = payload as {
+      lineId: string;
+      fromStationId: string;
+      stationIds: string[];
+      branchId?: string;
+      trainIds?: string[];
+      expressStationIds?: string[];
+    };
+    const result = this.lineManager.addBranch(
+      lineId,
+      fromStationId,
+      stationIds,
+      branchId,
+      trainIds,
+      expressStationIds,
+    );
+    if (result.success) {
+      this.onNetworkChanged();
+      this.notifyListeners();
+    }
+    return result;
+  }
+
+  private dispatchRemoveBranch(payload: unknown): ActionResult {
+    const { lineId, branchId } = payload as {
+      lineId: string;
+      branchId: string;
+    };
+    const result = this.lineManager.removeBranch(lineId, branchId);
+    if (result.success) {
+      // Branch trains now run the trunk; journeys to branch stops are re-planned
+      this.onNetworkChanged();
+      this.notifyListeners();
+    }
+    return result;
+  }
+
+  private dispatchToggleExpressStop(payload: unknown): ActionResult {
+    const { lineId, stationId } = payload as {
+      lineId: string;
+      stationId: string;
+    };
+    const result = this.lineManager.toggleExpressStop(lineId, stationId);
+    if (result.success) {
+      // Express trains now call at a different set of stops
+      this.onNetworkChanged();
+      this.notifyListeners();
+    }
+    return result;
+  }
+
+  private dispatchRestoreLine(payload: unknown): ActionResult {
+    const { line, index } = payload as { line: MetroLine; index: number };
+    const result = this.lineManager.restoreLine(line, index);
+    if (result.success) {
+      this.onNetworkChanged();
+      this.notifyListeners();
+    }
+    return result;
+  }
+
+  private dispatchAddTrain(payload: unknown): ActionResult {
+    const { lineId, branchId, trainType, stopPattern } = payload as {
+      lineId: string;
+      branchId?: string;
+      trainType?: TrainTypeId;
+      stopPattern?: StopPattern;
+    };
+    const result = this.trainManager.addTrainToLine(
+      lineId,
+      branchId,
+      trainType,
+      stopPattern,
+    );
+    if (result.success) {
+      // Train count changes line headways used for routing
+      this.onNetworkChanged();
       this.notifyListeners();
     }
     return result;
@@ -206,6 +442,32 @@ export class GameController {
     };
     const result = this.trainManager.removeTrainFromLine(lineId, trainId);
     if (result.success) {
+      this.onNetworkChanged();
+      this.notifyListeners();
+    }
+    return result;
+  }
+
+  private dispatchSetTrainCount(payload: unknown): ActionResult {
+    const { lineId, count, branchId, trainType, stopPattern, trains } =
+      payload as {
+        lineId: string;
+        count: number;
+        branchId?: string;
+        trainType?: TrainTypeId;
+        stopPattern?: StopPattern;
+        trains?: TrainPurchase[];
+      };
+    const result = this.trainManager.setTrainCount(
+      lineId,
+      count,
+      branchId,
+      trainType,
+      stopPattern,
+      trains,
+    );
+    if (result.success) {
+      this.onNetworkChanged();
       this.notifyListeners();
     }
     return result;
@@ -233,6 +495,332 @@ export class GameController {
     return { success: true };
   }
 
+  private dispatchResetGame(): ActionResult {
+    // Start over on the same map, discarding the saved game
+    clearSavedGame();
+    this.attachState(createGameState(this.state.seed, this.state.map));
+    this.history.clear();
+    this.notifyListeners();
+    return { success: true };
+  }
+
+  private dispatchUndo(): ActionResult {
+    const entry = this.history.peekUndo();
+    if (!entry) {
+      return { success: false, error: "Nothing to undo" };
+    }
+    if (this.lineManager.isBuilding()) {
+      return { success: false, error: "Finish the line being built first" };
+    }
+
+    const result = this.applyAction(entry.undo);
+    if (result.success) {
+      this.history.markUndone();
+    }
+    return result;
+  }
+
+  private dispatchRedo(): ActionResult {
+    const entry = this.history.peekRedo();
+    if (!entry) {
+      return { success: false, error: "Nothing to redo" };
+    }
+    if (this.lineManager.isBuilding()) {
+      return { success: false, error: "Finish the line being built first" };
+    }
+
+    const result = this.applyAction(entry.redo);
+    if (result.success) {
+      this.history.markRedone();
+    }
+    return result;
+  }
+
+  /**
+   * Work out how to undo and redo an action from the state before it runs
+   * @returns A callback building the history entry from the action's result,
+   * or null if the action is not undoable (line drafting, simulation control)
+   */
+  private prepareHistoryEntry(
+    action: GameAction,
+  ): ((result: ActionResult) => HistoryEntry) | null {
+    const type = action.type;
+
+    switch (type) {
+      case "PLACE_STATION":
+      case "RESTORE_STATION":
+        return (result) => {
+          // Redo puts back the same station, so lines redone after it still
+          // find their stops by ID
+          const station = result.data as Station;
+          return {
+            type,
+            undo: {
+              type: "REMOVE_STATION",
+              payload: { stationId: station.id },
+            },
+            redo: {
+              type: "RESTORE_STATION",
+              payload: {
+                station: { ...station },
+                index: this.state.stations.indexOf(station),
+              },
+            },
+          };
+        };
+
+      case "REMOVE_STATION": {
+        const { stationId } = action.payload as { stationId: string };
+        const index = this.state.stations.findIndex((s) => s.id === stationId);
+        const station = this.state.stations[index];
+        if (!station) return null;
+        return () => ({
+          type,
+          undo: {
+            type: "RESTORE_STATION",
+            payload: { station: { ...station }, index },
+          },
+          redo: action,
+        });
+      }
+
+      case "MOVE_STATION": {
+        const { stationId } = action.payload as { stationId: string };
+        const station = this.stationManager.getStationById(stationId);
+        if (!station) return null;
+        const { vertexX, vertexY } = station;
+        return () => ({
+          type,
+          undo: {
+            type: "MOVE_STATION",
+            payload: { stationId, vertexX, vertexY },
+          },
+          redo: action,
+        });
+      }
+
+      case "RENAME_STATION": {
+        const { stationId } = action.payload as { stationId: string };
+        const name = this.stationManager.getStationById(stationId)?.label;
+        if (name === undefined) return null;
+        return () => ({
+          type,
+          undo: {
+            type: "RENAME_STATION",
+            payload: { stationId, name },
+          },
+          redo: action,
+        });
+      }
+
+      case "COMPLETE_LINE":
+      case "RESTORE_LINE":
+        return (result) => {
+          const line = result.data as MetroLine;
+          return {
+            type,
+            undo: { type: "DELETE_LINE", payload: { lineId: line.id } },
+            redo: {
+              type: "RESTORE_LINE",
+              payload: {
+                line: snapshotLine(line),
+                index: this.state.lines.indexOf(line),
+              },
+            },
+          };
+        };
+
+      case "DELETE_LINE": {
+        const { lineId } = action.payload as { lineId: string };
+        const index = this.state.lines.findIndex((l) => l.id === lineId);
+        const line = this.state.lines[index];
+        if (!line) return null;
+        const snapshot = snapshotLine(line);
+        return () => ({
+          type,
+          undo: { type: "RESTORE_LINE", payload: { line: snapshot, index } },
+          redo: action,
+        });
+      }
+
+      case "EXTEND_LINE":
+      case "INSERT_STATION_IN_LINE": {
+        const { lineId, stationId } = action.payload as {
+          lineId: string;
+          stationId: string;
+        };
+        return () => ({
+          type,
+          undo: {
+            type: "REMOVE_STATION_FROM_LINE",
+            payload: { lineId, stationId },
+          },
+          redo: action,
+        });
+      }
+
+      case "REMOVE_STATION_FROM_LINE": {
+        const { lineId, stationId } = action.payload as {
+          lineId: string;
+          stationId: string;
+        };
+        const line = this.lineManager.getLineById(lineId);
+        if (!line) return null;
+        const index = line.stationIds.indexOf(stationId);
+        // Removal drops the stop's express mark; undo puts it back
+        const expressStationIds = [...line.expressStationIds];
+        return () => ({
+          type,
+          undo: {
+            type: "INSERT_STATION_IN_LINE",
+            payload: { lineId, stationId, index, expressStationIds },
+          },
+          redo: action,
+        });
+      }
+
+      case "ADD_BRANCH":
+        return (result) => {
+          const { lineId, fromStationId, stationIds } = action.payload as {
+            lineId: string;
+            fromStationId: string;
+            stationIds: string[];
+          };
+          const line = result.data as MetroLine;
+          const branchId = line.branches[line.branches.length - 1].id;
+          return {
+            type,
+            undo: { type: "REMOVE_BRANCH", payload: { lineId, branchId } },
+            redo: {
+              type: "ADD_BRANCH",
+              payload: { lineId, fromStationId, stationIds, branchId },
+            },
+          };
+        };
+
+      case "REMOVE_BRANCH": {
+        const { lineId, branchId } = action.payload as {
+          lineId: string;
+          branchId: string;
+        };
+        const line = this.lineManager.getLineById(lineId);
+        const branch = line?.branches.find((b) => b.id === branchId);
+        if (!line || !branch) return null;
+        const { fromStationId, stationIds } = branch;
+        // Removal moves the branch's trains onto the trunk and drops its
+        // express marks; undo puts both back
+        const trainIds = line.trains
+          .filter((t) => t.branchId === branchId)
+          .map((t) => t.id);
+        const expressStationIds = [...line.expressStationIds];
+        return () => ({
+          type,
+          undo: {
+            type: "ADD_BRANCH",
+            payload: {
+              lineId,
+              fromStationId,
+              stationIds: [...stationIds],
+              branchId,
+              trainIds,
+              expressStationIds,
+            },
+          },
+          redo: action,
+        });
+      }
+
+      case "TOGGLE_EXPRESS_STOP":
+        // Toggling again puts the stop back
+        return () => ({ type, undo: action, redo: action });
+
+      case "ADD_TRAIN":
+      case "REMOVE_TRAIN":
+      case "SET_TRAIN_COUNT": {
+        const { lineId } = action.payload as { lineId: string };
+        const branchId = this.getAffectedBranchId(action);
+        const before = this.trainManager.getServiceTrainsForLine(
+          lineId,
+          branchId,
+        );
+        const fleetBefore = [...this.trainManager.getTrainsForLine(lineId)];
+        return () => {
+          // Undo buys back exactly the trains removed, with their IDs and
+          // places in the fleet, so later history entries still find them
+          const after = this.trainManager.getServiceTrainsForLine(
+            lineId,
+            branchId,
+          );
+          const removed = before.filter((t) => !after.includes(t));
+          const added = after.filter((t) => !before.includes(t));
+          return {
+            type,
+            undo: {
+              type: "SET_TRAIN_COUNT",
+              payload: {
+                lineId,
+                count: before.length,
+                branchId,
+                trains: removed.map((t) => toTrainPurchase(t, fleetBefore)),
+              },
+            },
+            // Redo buys added trains back under the IDs they had
+            redo:
+              type === "REMOVE_TRAIN"
+                ? action
+                : {
+                    type: "SET_TRAIN_COUNT",
+                    payload: {
+                      lineId,
+                      count: after.length,
+                      branchId,
+                      trains: added.map((t) =>
+                        toTrainPurchase(
+                          t,
+                          this.trainManager.getTrainsForLine(lineId),
+                        ),
+                      ),
+                    },
+                  },
+          };
+        };
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Work out which service (trunk or branch) a train action changes
+   * @returns The branch ID, or undefined for the trunk service
+   */
+  private getAffectedBranchId(action: GameAction): string | undefined {
+    const { lineId, trainId, branchId } = action.payload as {
+      lineId: string;
+      trainId?: string;
+      branchId?: string;
+    };
+    if (action.type !== "REMOVE_TRAIN") return branchId;
+
+    // Removing a train takes the given one, or the last in the fleet
+    const line = this.lineManager.getLineById(lineId);
+    if (!line) return undefined;
+    const train = trainId
+      ? line.trains.find((t) => t.id === trainId)
+      : line.trains[line.trains.length - 1];
+    return train ? getTrainBranch(line, train)?.id : undefined;
+  }
+
+  /**
+   * Refresh cached network data and re-plan passenger journeys
+   * Called after any station, line or train change
+   */
+  private onNetworkChanged(): void {
+    this.networkGraph.invalidate();
+    reroutePassengers(this.state, this.networkGraph);
+  }
+
   // ========================================================================
   // State Access
   // ========================================================================
@@ -265,6 +853,20 @@ export class GameController {
     return this.trainManager;
   }
 
+  /**
+   * Get the cached network graph
+   */
+  getNetworkGraph(): NetworkGraph {
+    return this.networkGraph;
+  }
+
+  /**
+   * Get simulation engine for direct access
+   */
+  getSimulationEngine(): SimulationEngine {
+    return this.simulationEngine;
+  }
+
   // ========================================================================
   // Observer Pattern
   // ========================================================================
@@ -319,7 +921,29 @@ export class GameController {
    * Called when transitioning to simulation screen
    */
   initializeSimulation(): void {
-    initializeTrains(this.state);
+    this.history.clear();
+    this.simulationEngine.initialize();
+  }
+
+  /**
+   * Check if there is a builder action to undo
+   */
+  canUndo(): boolean {
+    return this.history.canUndo();
+  }
+
+  /**
+   * Check if there is an undone builder action to redo
+   */
+  canRedo(): boolean {
+    return this.history.canRedo();
+  }
+
+  /**
+   * Forget the undo history (e.g. when the simulation takes over)
+   */
+  clearHistory(): void {
+    this.history.clear();
   }
 
   /**
@@ -344,3 +968,32 @@ export class GameController {
     this.notifyListeners();
   }
 }
+
+/**
+ * Copy a line for the history so later edits to the live line cannot change it
+ */
+function snapshotLine(line: MetroLine): MetroLine {
+  return {
+    ...line,
+    stationIds: [...line.stationIds],
+    branches: line.branches.map((branch) => ({
+      ...branch,
+      stationIds: [...branch.stationIds],
+    })),
+    expressStationIds: [...line.expressStationIds],
+    trains: line.trains.map((train) => ({ ...train, passengers: [] })),
+  };
+}
+
+/**
+ * Record a train for the history so it can be bought back as it was
+ * @param fleet The line's trains at the time, to remember the train's place
+ */
+function toTrainPurchase(train: Train, fleet: Train[]): TrainPurchase {
+  return {
+    trainId: train.id,
+    trainType: train.trainType,
+    stopPattern: train.stopPattern,
+    fleetIndex: fleet.indexOf(train),
+  };
+}
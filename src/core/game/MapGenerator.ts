@@ -1,6 +1,7 @@
 /**
  * Seeded Map Generator for MetroMap.io
- * Generates either River or Archipelago maps based on seed value
+ * Generates River or Archipelago maps based on seed value, or a River,
+ * Archipelago, Coastal, Lake or Valley map picked explicitly
  */
 
 import {
@@ -9,18 +10,42 @@ import {
   randomInt,
   randomFloat,
 } from "@engine/utils/random";
-import { type GridSquare, type MapGrid, type MapType } from "./models/MapGrid";
-import { MAP_WIDTH, MAP_HEIGHT } from "./config";
+import {
+  type GridSquare,
+  type MapGrid,
+  type MapSize,
+  type MapType,
+} from "./models/MapGrid";
+import { MAP_SIZE_PRESETS, DEFAULT_MAP_SIZE } from "./config";
+
+// Size the feature counts (islands, hotspots, density caps) were tuned for
+const REFERENCE_SIZE = MAP_SIZE_PRESETS.MEDIUM;
 
 type Edge = "TOP" | "BOTTOM" | "LEFT" | "RIGHT";
+const EDGES: readonly Edge[] = ["TOP", "BOTTOM", "LEFT", "RIGHT"];
 type RiverType = "SINGLE" | "BRANCHING" | "TWO_SEPARATE";
+type Point = { x: number; y: number };
+type Hotspot = { x: number; y: number; strength: number };
 
 export class MapGenerator {
   private random: () => number;
   private seed: number;
-
-  constructor(seed: number) {
+  private width: number;
+  private height: number;
+  private areaScale: number; // Map area relative to REFERENCE_SIZE
+  private mapType?: MapType; // Explicit map type; picked from the seed when unset
+
+  constructor(
+    seed: number,
+    size: MapSize = DEFAULT_MAP_SIZE,
+    mapType?: MapType,
+  ) {
     this.seed = seed;
+    this.mapType = mapType;
+    ({ width: this.width, height: this.height } = MAP_SIZE_PRESETS[size]);
+    this.areaScale =
+      (this.width * this.height) /
+      (REFERENCE_SIZE.width * REFERENCE_SIZE.height);
     // Create seeded random function
     this.random = randomSeeded(seed.toString());
   }
@@ -29,26 +54,44 @@ export class MapGenerator {
    * Generate a complete map based on the seed
    */
   public generate(): MapGrid {
-    // 50:50 chance of river or archipelago, determined by seed
-    const mapType: MapType = randomBool(0.5, this.random)
+    // Map type is determined by seed unless one was picked. Seeds keep the
+    // river/archipelago roll they always had, so shared seeds and old saves
+    // regenerate the same map; it is always made so the rest of the map
+    // depends only on the seed
+    const rolledType: MapType = randomBool(0.5, this.random)
       ? "RIVER"
       : "ARCHIPELAGO";
+    const mapType = this.mapType ?? rolledType;
 
     // Initialize all squares as land
     const squares = this.initializeGrid();
 
-    if (mapType === "RIVER") {
-      this.generateRiverMap(squares);
-    } else {
-      this.generateArchipelagoMap(squares);
+    // Geographies with a natural city centre report where it is
+    let cbd: Point | undefined;
+    switch (mapType) {
+      case "RIVER":
+        this.generateRiverMap(squares);
+        break;
+      case "ARCHIPELAGO":
+        this.generateArchipelagoMap(squares);
+        break;
+      case "COASTAL":
+        cbd = this.generateCoastalMap(squares);
+        break;
+      case "LAKE":
+        cbd = this.generateLakeMap(squares);
+        break;
+      case "VALLEY":
+        cbd = this.generateValleyMap(squares);
+        break;
     }
 
     // Generate residential and office densities
-    this.generateDensities(squares);
+    this.generateDensities(squares, cbd);
 
     return {
-      width: MAP_WIDTH,
-      height: MAP_HEIGHT,
+      width: this.width,
+      height: this.height,
       seed: this.seed,
       mapType,
       squares,
@@ -61,9 +104,9 @@ export class MapGenerator {
   private initializeGrid(): GridSquare[][] {
     const squares: GridSquare[][] = [];
 
-    for (let y = 0; y < MAP_HEIGHT; y++) {
+    for (let y = 0; y < this.height; y++) {
       squares[y] = [];
-      for (let x = 0; x < MAP_WIDTH; x++) {
+      for (let x = 0; x < this.width; x++) {
         squares[y][x] = {
           x,
           y,
@@ -148,7 +191,7 @@ export class MapGenerator {
     const isHorizontal = startEdge === "LEFT" || startEdge === "RIGHT";
     const mergePoint = {
       x: isHorizontal
-        ? Math.floor(MAP_WIDTH * randomFloat(0.4, 0.6, this.random))
+        ? Math.floor(this.width * randomFloat(0.4, 0.6, this.random))
         : Math.floor(
             (startPos1.x + startPos2.x) / 2 + randomInt(-3, 3, this.random),
           ),
@@ -156,12 +199,12 @@ export class MapGenerator {
         ? Math.floor(
             (startPos1.y + startPos2.y) / 2 + randomInt(-3, 3, this.random),
           )
-        : Math.floor(MAP_HEIGHT * randomFloat(0.4, 0.6, this.random)),
+        : Math.floor(this.height * randomFloat(0.4, 0.6, this.random)),
     };
 
     // Clamp merge point
-    mergePoint.x = Math.max(2, Math.min(MAP_WIDTH - 3, mergePoint.x));
-    mergePoint.y = Math.max(2, Math.min(MAP_HEIGHT - 3, mergePoint.y));
+    mergePoint.x = Math.max(2, Math.min(this.width - 3, mergePoint.x));
+    mergePoint.y = Math.max(2, Math.min(this.height - 3, mergePoint.y));
 
     const width1 = randomInt(1, 4, this.random);
     const width2 = randomInt(1, 4, this.random);
@@ -238,7 +281,7 @@ export class MapGenerator {
     // Bresenham's line algorithm - ensures only horizontal or vertical steps
     while (true) {
       // Mark current position
-      if (x >= 0 && x < MAP_WIDTH && y >= 0 && y < MAP_HEIGHT) {
+      if (x >= 0 && x < this.width && y >= 0 && y < this.height) {
         squares[y][x].type = "WATER";
       }
 
@@ -273,7 +316,7 @@ export class MapGenerator {
     // First, create a centerline path
     const centerline: { x: number; y: number }[] = [];
     let { x, y } = start;
-    const maxSteps = MAP_WIDTH + MAP_HEIGHT + 100;
+    const maxSteps = this.width + this.height + 100;
     let steps = 0;
 
     // Calculate main direction
@@ -334,8 +377,8 @@ export class MapGenerator {
       y = y + moveY;
 
       // Clamp to map bounds
-      x = Math.max(0, Math.min(MAP_WIDTH - 1, x));
-      y = Math.max(0, Math.min(MAP_HEIGHT - 1, y));
+      x = Math.max(0, Math.min(this.width - 1, x));
+      y = Math.max(0, Math.min(this.height - 1, y));
 
       // Round to integer position
       const newPoint = { x: Math.round(x), y: Math.round(y) };
@@ -409,9 +452,9 @@ export class MapGenerator {
       waterSet.add(key);
       if (
         point.x >= 0 &&
-        point.x < MAP_WIDTH &&
+        point.x < this.width &&
         point.y >= 0 &&
-        point.y < MAP_HEIGHT
+        point.y < this.height
       ) {
         squares[point.y][point.x].type = "WATER";
       }
@@ -442,9 +485,9 @@ export class MapGenerator {
         const key = `${neighbor.x},${neighbor.y}`;
         if (
           neighbor.x >= 0 &&
-          neighbor.x < MAP_WIDTH &&
+          neighbor.x < this.width &&
           neighbor.y >= 0 &&
-          neighbor.y < MAP_HEIGHT &&
+          neighbor.y < this.height &&
           !waterSet.has(key)
         ) {
           // Only expand with some probability to create organic shapes
@@ -474,8 +517,8 @@ export class MapGenerator {
       case "TOP":
         return {
           x: randomInt(
-            Math.floor(MAP_WIDTH * minRatio),
-            Math.floor(MAP_WIDTH * maxRatio),
+            Math.floor(this.width * minRatio),
+            Math.floor(this.width * maxRatio),
             this.random,
           ),
           y: 0,
@@ -483,27 +526,27 @@ export class MapGenerator {
       case "BOTTOM":
         return {
           x: randomInt(
-            Math.floor(MAP_WIDTH * minRatio),
-            Math.floor(MAP_WIDTH * maxRatio),
+            Math.floor(this.width * minRatio),
+            Math.floor(this.width * maxRatio),
             this.random,
           ),
-          y: MAP_HEIGHT - 1,
+          y: this.height - 1,
         };
       case "LEFT":
         return {
           x: 0,
           y: randomInt(
-            Math.floor(MAP_HEIGHT * minRatio),
-            Math.floor(MAP_HEIGHT * maxRatio),
+            Math.floor(this.height * minRatio),
+            Math.floor(this.height * maxRatio),
             this.random,
           ),
         };
       case "RIGHT":
         return {
-          x: MAP_WIDTH - 1,
+          x: this.width - 1,
           y: randomInt(
-            Math.floor(MAP_HEIGHT * minRatio),
-            Math.floor(MAP_HEIGHT * maxRatio),
+            Math.floor(this.height * minRatio),
+            Math.floor(this.height * maxRatio),
             this.random,
           ),
         };
@@ -516,8 +559,8 @@ export class MapGenerator {
    */
   private generateArchipelagoMap(squares: GridSquare[][]): void {
     // Start with all water
-    for (let y = 0; y < MAP_HEIGHT; y++) {
-      for (let x = 0; x < MAP_WIDTH; x++) {
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
         squares[y][x].type = "WATER";
       }
     }
@@ -529,8 +572,8 @@ export class MapGenerator {
     // Distribute islands more evenly across the map
     const gridCols = islandCount <= 4 ? 2 : 3;
     const gridRows = 2;
-    const cellWidth = MAP_WIDTH / gridCols;
-    const cellHeight = MAP_HEIGHT / gridRows;
+    const cellWidth = this.width / gridCols;
+    const cellHeight = this.height / gridRows;
 
     for (let i = 0; i < islandCount; i++) {
       const gridX = i % gridCols;
@@ -546,15 +589,16 @@ export class MapGenerator {
         randomInt(padding, Math.floor(cellHeight) - padding, this.random);
 
       islandCenters.push({
-        x: Math.min(MAP_WIDTH - 3, Math.max(3, centerX)),
-        y: Math.min(MAP_HEIGHT - 3, Math.max(3, centerY)),
-        size: randomInt(5, 10, this.random), // Base radius for larger islands
+        x: Math.min(this.width - 3, Math.max(3, centerX)),
+        y: Math.min(this.height - 3, Math.max(3, centerY)),
+        // Base radius for larger islands
+        size: randomInt(5, 10, this.random) * Math.sqrt(this.areaScale),
       });
     }
 
     // Grow islands from centers using distance-based probability
-    for (let y = 0; y < MAP_HEIGHT; y++) {
-      for (let x = 0; x < MAP_WIDTH; x++) {
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
         let maxProb = 0;
 
         for (const center of islandCenters) {
@@ -586,17 +630,260 @@ export class MapGenerator {
     this.removeLakes(squares);
   }
 
+  /**
+   * Generate a coastal map
+   * - Ocean along one edge with a ragged coastline
+   * - A harbour bay cut into the coast
+   * @returns The head of the harbour, where the city centre grows
+   */
+  private generateCoastalMap(squares: GridSquare[][]): Point {
+    const edge = this.pickItem(EDGES);
+    const alongLength = this.getEdgeLength(edge);
+    const acrossLength = this.getEdgeDepth(edge);
+
+    // Ocean covers 20-30% of the map, measured in from the edge
+    const coastline = this.randomProfile(
+      alongLength,
+      acrossLength * randomFloat(0.2, 0.3, this.random),
+      acrossLength * 0.08,
+    );
+
+    // Harbour: a tapering bay somewhere along the middle of the coast
+    const harbourAt = randomInt(
+      Math.floor(alongLength * 0.3),
+      Math.floor(alongLength * 0.7),
+      this.random,
+    );
+    const bayHalfWidth = Math.max(2, Math.round(alongLength * 0.05));
+    const bayDepth = Math.max(2, Math.round(acrossLength * 0.15));
+
+    for (let along = 0; along < alongLength; along++) {
+      let depth = coastline[along];
+      const offset = Math.abs(along - harbourAt);
+      if (offset <= bayHalfWidth) {
+        depth += bayDepth * (1 - offset / (bayHalfWidth + 1));
+      }
+
+      for (let across = 0; across < Math.round(depth); across++) {
+        const { x, y } = this.fromEdge(edge, along, across);
+        squares[y][x].type = "WATER";
+      }
+    }
+
+    const harbourDepth = Math.round(coastline[harbourAt] + bayDepth);
+    return this.fromEdge(
+      edge,
+      harbourAt,
+      Math.min(acrossLength - 1, harbourDepth),
+    );
+  }
+
+  /**
+   * Generate a lake map
+   * - One irregular inland lake, sometimes with an island
+   * - 50% chance of a river draining the lake to an edge
+   * @returns A point on the lake shore, where the city centre grows
+   */
+  private generateLakeMap(squares: GridSquare[][]): Point {
+    const center = {
+      x: randomInt(
+        Math.floor(this.width * 0.35),
+        Math.floor(this.width * 0.65),
+        this.random,
+      ),
+      y: randomInt(
+        Math.floor(this.height * 0.35),
+        Math.floor(this.height * 0.65),
+        this.random,
+      ),
+    };
+    const radius =
+      Math.min(this.width, this.height) * randomFloat(0.18, 0.26, this.random);
+
+    // Vary the radius with angle for an irregular shoreline
+    const lobes = [
+      { count: 2, amplitude: randomFloat(0.1, 0.25, this.random) },
+      { count: 3, amplitude: randomFloat(0.05, 0.15, this.random) },
+    ].map((lobe) => ({
+      ...lobe,
+      phase: randomFloat(0, 2 * Math.PI, this.random),
+    }));
+    const shoreRadius = (angle: number): number =>
+      radius *
+      lobes.reduce(
+        (scale, lobe) =>
+          scale + lobe.amplitude * Math.sin(lobe.count * angle + lobe.phase),
+        1,
+      );
+
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        const dx = x - center.x;
+        const dy = y - center.y;
+        if (Math.sqrt(dx * dx + dy * dy) < shoreRadius(Math.atan2(dy, dx))) {
+          squares[y][x].type = "WATER";
+        }
+      }
+    }
+
+    // Island in the lake
+    if (randomBool(0.5, this.random)) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if (Math.abs(dx) + Math.abs(dy) < 2) {
+            squares[center.y + dy][center.x + dx].type = "LAND";
+          }
+        }
+      }
+    }
+
+    // Outflow river to one side
+    if (randomBool(0.5, this.random)) {
+      const edge = this.pickItem(EDGES);
+      const mouth = this.getRandomEdgePosition(edge, 0.3, 0.7);
+      this.drawRiverPath(squares, center, mouth, randomInt(1, 2, this.random));
+    }
+
+    this.removeSmallIslands(squares, 4);
+
+    // City centre: walk out from the middle of the lake until reaching land
+    const angle = randomFloat(0, 2 * Math.PI, this.random);
+    for (let distance = 0; ; distance += 0.5) {
+      const x = Math.round(center.x + Math.cos(angle) * distance);
+      const y = Math.round(center.y + Math.sin(angle) * distance);
+      if (x < 0 || x >= this.width || y < 0 || y >= this.height) {
+        return center;
+      }
+      if (distance > 2 && squares[y][x].type === "LAND") {
+        return { x, y };
+      }
+    }
+  }
+
+  /**
+   * Generate a valley map
+   * - Mountain ridges along both sides of the long axis
+   * - A river winding along the valley floor
+   * @returns The middle of the valley floor, where the city centre grows
+   */
+  private generateValleyMap(squares: GridSquare[][]): Point {
+    // The valley runs along the long axis, from LEFT to RIGHT or TOP to BOTTOM
+    const edge: Edge = this.width >= this.height ? "TOP" : "LEFT";
+    const alongLength = this.getEdgeLength(edge);
+    const acrossLength = this.getEdgeDepth(edge);
+
+    // Valley floor: a meandering centreline and a varying half-width
+    const centerline = this.randomProfile(
+      alongLength,
+      acrossLength / 2,
+      acrossLength * 0.12,
+    );
+    const halfWidth = this.randomProfile(
+      alongLength,
+      acrossLength * randomFloat(0.28, 0.34, this.random),
+      acrossLength * 0.06,
+    );
+
+    for (let along = 0; along < alongLength; along++) {
+      for (let across = 0; across < acrossLength; across++) {
+        if (Math.abs(across - centerline[along]) > halfWidth[along]) {
+          const { x, y } = this.fromEdge(edge, along, across);
+          squares[y][x].type = "MOUNTAIN";
+        }
+      }
+    }
+
+    // River follows the valley floor, filling vertical steps so it stays connected
+    const riverWidth = randomInt(1, 2, this.random);
+    let previous = Math.round(centerline[0]);
+    for (let along = 0; along < alongLength; along++) {
+      const current = Math.round(centerline[along]);
+      const from = Math.min(previous, current);
+      const to = Math.max(previous, current) + riverWidth - 1;
+      for (let across = from; across <= to; across++) {
+        const { x, y } = this.fromEdge(edge, along, across);
+        squares[y][x].type = "WATER";
+      }
+      previous = current;
+    }
+
+    // City centre: on the bank beside the river halfway along
+    const middle = Math.floor(alongLength / 2);
+    const bank = Math.round(centerline[middle]) + riverWidth + 1;
+    return this.fromEdge(edge, middle, Math.min(acrossLength - 1, bank));
+  }
+
+  /**
+   * Smooth random profile (a bounded random walk), one value per step
+   * Used for coastlines and valley walls
+   */
+  private randomProfile(
+    length: number,
+    base: number,
+    amplitude: number,
+  ): number[] {
+    const profile: number[] = [];
+    let value = base + randomFloat(-amplitude, amplitude, this.random);
+
+    for (let i = 0; i < length; i++) {
+      value += randomFloat(-0.6, 0.6, this.random);
+      value = Math.max(base - amplitude, Math.min(base + amplitude, value));
+      profile.push(value);
+    }
+
+    return profile;
+  }
+
+  /**
+   * Pick a random item from a list
+   */
+  private pickItem<T>(items: readonly T[]): T {
+    return items[randomInt(0, items.length - 1, this.random)];
+  }
+
+  /**
+   * Number of squares along an edge
+   */
+  private getEdgeLength(edge: Edge): number {
+    return edge === "TOP" || edge === "BOTTOM" ? this.width : this.height;
+  }
+
+  /**
+   * Number of squares from an edge to the opposite one
+   */
+  private getEdgeDepth(edge: Edge): number {
+    return edge === "TOP" || edge === "BOTTOM" ? this.height : this.width;
+  }
+
+  /**
+   * Convert edge-relative coordinates to a square
+   * @param along - Squares along the edge
+   * @param across - Squares in from the edge
+   */
+  private fromEdge(edge: Edge, along: number, across: number): Point {
+    switch (edge) {
+      case "TOP":
+        return { x: along, y: across };
+      case "BOTTOM":
+        return { x: along, y: this.height - 1 - across };
+      case "LEFT":
+        return { x: across, y: along };
+      case "RIGHT":
+        return { x: this.width - 1 - across, y: along };
+    }
+  }
+
   /**
    * Remove islands smaller than minimum size using flood fill
    */
   private removeSmallIslands(squares: GridSquare[][], minSize: number): void {
     const visited: boolean[][] = [];
-    for (let y = 0; y < MAP_HEIGHT; y++) {
-      visited[y] = new Array(MAP_WIDTH).fill(false);
+    for (let y = 0; y < this.height; y++) {
+      visited[y] = new Array(this.width).fill(false);
     }
 
-    for (let y = 0; y < MAP_HEIGHT; y++) {
-      for (let x = 0; x < MAP_WIDTH; x++) {
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
         if (squares[y][x].type === "LAND" && !visited[y][x]) {
           const island = this.floodFill(squares, visited, x, y);
 
@@ -627,9 +914,9 @@ export class MapGenerator {
 
       if (
         x < 0 ||
-        x >= MAP_WIDTH ||
+        x >= this.width ||
         y < 0 ||
-        y >= MAP_HEIGHT ||
+        y >= this.height ||
         visited[y][x] ||
         squares[y][x].type !== "LAND"
       ) {
@@ -656,7 +943,7 @@ export class MapGenerator {
     minLandRatio: number,
     maxLandRatio: number,
   ): void {
-    const totalSquares = MAP_WIDTH * MAP_HEIGHT;
+    const totalSquares = this.width * this.height;
     let landCount = this.countLand(squares);
     let iterations = 0;
     const maxIterations = 200;
@@ -669,8 +956,8 @@ export class MapGenerator {
       iterations++;
       const candidates: { x: number; y: number }[] = [];
 
-      for (let y = 0; y < MAP_HEIGHT; y++) {
-        for (let x = 0; x < MAP_WIDTH; x++) {
+      for (let y = 0; y < this.height; y++) {
+        for (let x = 0; x < this.width; x++) {
           if (
             squares[y][x].type === "WATER" &&
             this.hasAdjacentLand(squares, x, y)
@@ -705,8 +992,8 @@ export class MapGenerator {
       iterations++;
       const candidates: { x: number; y: number }[] = [];
 
-      for (let y = 0; y < MAP_HEIGHT; y++) {
-        for (let x = 0; x < MAP_WIDTH; x++) {
+      for (let y = 0; y < this.height; y++) {
+        for (let x = 0; x < this.width; x++) {
           if (
             squares[y][x].type === "LAND" &&
             this.hasAdjacentWater(squares, x, y)
@@ -741,8 +1028,8 @@ export class MapGenerator {
    */
   private countLand(squares: GridSquare[][]): number {
     let count = 0;
-    for (let y = 0; y < MAP_HEIGHT; y++) {
-      for (let x = 0; x < MAP_WIDTH; x++) {
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
         if (squares[y][x].type === "LAND") count++;
       }
     }
@@ -769,9 +1056,9 @@ export class MapGenerator {
       const ny = y + dy;
       if (
         nx >= 0 &&
-        nx < MAP_WIDTH &&
+        nx < this.width &&
         ny >= 0 &&
-        ny < MAP_HEIGHT &&
+        ny < this.height &&
         squares[ny][nx].type === "LAND"
       ) {
         return true;
@@ -800,9 +1087,9 @@ export class MapGenerator {
       const ny = y + dy;
       if (
         nx >= 0 &&
-        nx < MAP_WIDTH &&
+        nx < this.width &&
         ny >= 0 &&
-        ny < MAP_HEIGHT &&
+        ny < this.height &&
         squares[ny][nx].type === "WATER"
       ) {
         return true;
@@ -818,30 +1105,30 @@ export class MapGenerator {
   private removeLakes(squares: GridSquare[][]): void {
     // Mark all water tiles connected to edges as "ocean"
     const isOcean: boolean[][] = [];
-    for (let y = 0; y < MAP_HEIGHT; y++) {
-      isOcean[y] = new Array(MAP_WIDTH).fill(false);
+    for (let y = 0; y < this.height; y++) {
+      isOcean[y] = new Array(this.width).fill(false);
     }
 
     // Flood fill from all edge water tiles
     const edgeWaterTiles: { x: number; y: number }[] = [];
 
     // Top and bottom edges
-    for (let x = 0; x < MAP_WIDTH; x++) {
+    for (let x = 0; x < this.width; x++) {
       if (squares[0][x].type === "WATER") {
         edgeWaterTiles.push({ x, y: 0 });
       }
-      if (squares[MAP_HEIGHT - 1][x].type === "WATER") {
-        edgeWaterTiles.push({ x, y: MAP_HEIGHT - 1 });
+      if (squares[this.height - 1][x].type === "WATER") {
+        edgeWaterTiles.push({ x, y: this.height - 1 });
       }
     }
 
     // Left and right edges
-    for (let y = 0; y < MAP_HEIGHT; y++) {
+    for (let y = 0; y < this.height; y++) {
       if (squares[y][0].type === "WATER") {
         edgeWaterTiles.push({ x: 0, y });
       }
-      if (squares[y][MAP_WIDTH - 1].type === "WATER") {
-        edgeWaterTiles.push({ x: MAP_WIDTH - 1, y });
+      if (squares[y][this.width - 1].type === "WATER") {
+        edgeWaterTiles.push({ x: this.width - 1, y });
       }
     }
 
@@ -851,8 +1138,8 @@ export class MapGenerator {
     }
 
     // Convert all non-ocean water to land (these are lakes)
-    for (let y = 0; y < MAP_HEIGHT; y++) {
-      for (let x = 0; x < MAP_WIDTH; x++) {
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
         if (squares[y][x].type === "WATER" && !isOcean[y][x]) {
           squares[y][x].type = "LAND";
         }
@@ -876,9 +1163,9 @@ export class MapGenerator {
 
       if (
         x < 0 ||
-        x >= MAP_WIDTH ||
+        x >= this.width ||
         y < 0 ||
-        y >= MAP_HEIGHT ||
+        y >= this.height ||
         isOcean[y][x] ||
         squares[y][x].type !== "WATER"
       ) {
@@ -897,15 +1184,17 @@ export class MapGenerator {
 
   /**
    * Generate residential and office densities for land tiles
-   * Total sum of residential densities should be < 50000
-   * Total sum of office densities should be < 50000
+   * Total sum of residential densities should be < 50000 (per medium map area)
+   * Total sum of office densities should be < 50000 (per medium map area)
    * Both values are 0-99 for each land square
+   * @param cbd - City centre for geographies that have one; the main office
+   * hotspot goes there and the rest are spread over the land
    */
-  private generateDensities(squares: GridSquare[][]): void {
+  private generateDensities(squares: GridSquare[][], cbd?: Point): void {
     // Count land tiles
     const landTiles: { x: number; y: number }[] = [];
-    for (let y = 0; y < MAP_HEIGHT; y++) {
-      for (let x = 0; x < MAP_WIDTH; x++) {
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
         if (squares[y][x].type === "LAND") {
           landTiles.push({ x, y });
         }
@@ -914,11 +1203,22 @@ export class MapGenerator {
 
     if (landTiles.length === 0) return;
 
-    // Generate 2-4 residential hotspots
-    const residentialHotspots = this.generateHotspots(2, 4);
+    let residentialHotspots: Hotspot[];
+    let officeHotspots: Hotspot[];
+    if (cbd) {
+      // Hotspots only on land, so none are lost under the sea or mountains
+      residentialHotspots = this.generateLandHotspots(landTiles, 2, 4);
+      officeHotspots = [
+        { ...cbd, strength: 99 },
+        ...this.generateLandHotspots(landTiles, 0, 2),
+      ];
+    } else {
+      // Generate 2-4 residential hotspots
+      residentialHotspots = this.generateHotspots(2, 4);
 
-    // Generate 1-3 office hotspots (fewer than residential)
-    const officeHotspots = this.generateHotspots(1, 3);
+      // Generate 1-3 office hotspots (fewer than residential)
+      officeHotspots = this.generateHotspots(1, 3);
+    }
 
     // Assign densities based on distance to hotspots
     let totalResidential = 0;
@@ -977,9 +1277,10 @@ export class MapGenerator {
       totalOffice += officeDensity;
     }
 
-    // Scale down if totals exceed 50000
-    if (totalResidential > 50000) {
-      const scale = 50000 / totalResidential;
+    // Scale down if totals exceed the cap
+    const densityCap = 50000 * this.areaScale;
+    if (totalResidential > densityCap) {
+      const scale = densityCap / totalResidential;
       for (const tile of landTiles) {
         squares[tile.y][tile.x].homeDensity = Math.floor(
           squares[tile.y][tile.x].homeDensity * scale,
@@ -987,8 +1288,8 @@ export class MapGenerator {
       }
     }
 
-    if (totalOffice > 50000) {
-      const scale = 50000 / totalOffice;
+    if (totalOffice > densityCap) {
+      const scale = densityCap / totalOffice;
       for (const tile of landTiles) {
         squares[tile.y][tile.x].officeDensity = Math.floor(
           squares[tile.y][tile.x].officeDensity * scale,
@@ -1000,17 +1301,36 @@ export class MapGenerator {
   /**
    * Generate random hotspot locations
    */
-  private generateHotspots(
+  private generateHotspots(min: number, max: number): Hotspot[] {
+    // Bigger maps get proportionally more hotspots
+    const count = Math.round(randomInt(min, max, this.random) * this.areaScale);
+    const hotspots: Hotspot[] = [];
+
+    for (let i = 0; i < count; i++) {
+      hotspots.push({
+        x: randomInt(5, this.width - 5, this.random),
+        y: randomInt(3, this.height - 3, this.random),
+        strength: randomInt(70, 99, this.random),
+      });
+    }
+
+    return hotspots;
+  }
+
+  /**
+   * Generate hotspots centred on random land tiles
+   */
+  private generateLandHotspots(
+    landTiles: Point[],
     min: number,
     max: number,
-  ): { x: number; y: number; strength: number }[] {
-    const count = randomInt(min, max, this.random);
-    const hotspots: { x: number; y: number; strength: number }[] = [];
+  ): Hotspot[] {
+    const count = Math.round(randomInt(min, max, this.random) * this.areaScale);
+    const hotspots: Hotspot[] = [];
 
     for (let i = 0; i < count; i++) {
       hotspots.push({
-        x: randomInt(5, MAP_WIDTH - 5, this.random),
-        y: randomInt(3, MAP_HEIGHT - 3, this.random),
+        ...this.pickItem(landTiles),
         strength: randomInt(70, 99, this.random),
       });
     }
@@ -1024,7 +1344,7 @@ export class MapGenerator {
   private calculateDensityFromHotspots(
     x: number,
     y: number,
-    hotspots: { x: number; y: number; strength: number }[],
+    hotspots: Hotspot[],
   ): number {
     let maxDensity = 0;
 
@@ -4,18 +4,117 @@
  */
 
 // --- Map Configuration ---
-export const MAP_WIDTH = 48; // Grid width
-export const MAP_HEIGHT = 32; // Grid height
+// Grid sizes (width x height in squares) offered in the map picker
+export const MAP_SIZE_PRESETS = {
+  SMALL: { width: 32, height: 24 },
+  MEDIUM: { width: 48, height: 32 },
+  LARGE: { width: 80, height: 52 },
+  HUGE: { width: 128, height: 84 },
+};
+export const DEFAULT_MAP_SIZE = "MEDIUM"; // Size of maps generated without a preset (see MAP_SIZE_PRESETS)
 export const TILE_SIZE = 16; // Visual size in pixels of one grid square
 
 // --- Train Configuration ---
-export const TRAIN_MAX_CAPACITY = 30; // Maximum number of passengers per train
-export const TRAIN_DEFAULT_SPEED = 5; // Base train speed in grid squares per second
-export const TRAIN_STOP_DURATION_SQUARES = 2; // Time to stop is equivalent to covering this many squares
-export const TRAIN_ACCEL_DECEL_DISTANCE = 1; // Distance in squares to accelerate/decelerate
+export const TRAIN_DEFAULT_SPEED = 5; // Reference train speed in grid squares per second (routing and dwell times use it)
+// Dwell at a stop grows with the passengers getting on and off, within these bounds (simulated seconds at 1x)
+export const TRAIN_MIN_DWELL_SECONDS = 0.4; // Doors open and close even when nobody moves
+export const TRAIN_MAX_DWELL_SECONDS = 2;
+export const DWELL_SECONDS_PER_PASSENGER = 0.04; // Added for each passenger boarding or alighting
+export const DWELL_SMOOTHING = 0.25; // Weight of the latest stop in a station's expected dwell (used by routing and headway schedules)
+export const MAX_TRAINS_PER_LINE = 10; // Trains a line may run across all its services
+
+// --- Rolling Stock Configuration ---
+// Train types that can be bought for a line; one line may run a mix
+// Speeds are in grid squares per second, costs in dollars
+export const TRAIN_TYPES = {
+  LIGHT_RAIL: {
+    name: "Light Rail",
+    purchasePrice: 300,
+    runningCostPerSquare: 1,
+    speed: 6,
+    accelDecelDistance: 0.5, // Distance in squares to accelerate/decelerate
+    capacity: 18, // Maximum number of passengers
+  },
+  METRO: {
+    name: "Metro",
+    purchasePrice: 600,
+    runningCostPerSquare: 2,
+    speed: TRAIN_DEFAULT_SPEED,
+    accelDecelDistance: 1,
+    capacity: 30,
+  },
+  HIGH_CAPACITY: {
+    name: "High Capacity",
+    purchasePrice: 1200,
+    runningCostPerSquare: 3.5,
+    speed: 4,
+    accelDecelDistance: 2,
+    capacity: 60,
+  },
+};
+export const DEFAULT_TRAIN_TYPE: keyof typeof TRAIN_TYPES = "METRO"; // Type of a new line's first train
+
+// --- Signalling Configuration ---
+// Track between two stops is split into blocks; one train may be in a block at a time
+export const SIGNAL_BLOCK_LENGTH_SQUARES = 4; // Longest block in grid squares
+
+// --- Headway Configuration ---
+// Times are in simulated seconds at 1x, like routing costs
+export const HEADWAY_HOLD_TOLERANCE = 0.1; // Trains closer than this fraction under the target headway are held
+export const HEADWAY_MAX_HOLD_SECONDS = 5; // Longest a train is held at one stop to restore spacing
+
+// --- Routing Configuration ---
+// Route costs are in simulated seconds at 1x (a train covers TRAIN_DEFAULT_SPEED squares per second)
+export const ROUTING_TRANSFER_PENALTY_SECONDS = 3; // Extra cost of changing lines (walking between platforms)
+export const ROUTING_WAIT_WEIGHT = 1.0; // Multiplier on the expected wait (half the headway) when boarding a line
+export const ROUTING_REFRESH_MS = 60 * 60 * 1000; // Game time between re-costing routes with stations' recent dwell
 
 // --- Spawning Configuration ---
-export const BASE_SPAWN_RATE = 0.2; // Base passengers per game-hour (before density modifiers)
+export const BASE_SPAWN_RATE = 200; // Base passengers per game-hour (before density and time-of-day modifiers)
+export const DEMAND_DISTANCE_DECAY_SQUARES = 20; // Trip demand falls by a factor of e every this many squares
+
+// --- Demand Calendar Configuration ---
+// Hours are 0-23 on the game clock; a window may wrap past midnight (e.g. 22 -> 5)
+// Multipliers scale trip generation relative to BASE_SPAWN_RATE
+export const WEEKDAY_DEMAND_PROFILE = {
+  morningRush: { startHour: 6, endHour: 10, multiplier: 3.0 }, // Home -> work
+  eveningRush: { startHour: 16, endHour: 20, multiplier: 3.0 }, // Work -> home
+  night: { startHour: 22, endHour: 5, multiplier: 0.1 },
+  offPeakMultiplier: 1.0,
+};
+export const WEEKEND_DEMAND_PROFILE = {
+  morningRush: { startHour: 10, endHour: 12, multiplier: 1.5 },
+  eveningRush: { startHour: 17, endHour: 20, multiplier: 1.5 },
+  night: { startHour: 0, endHour: 7, multiplier: 0.2 },
+  offPeakMultiplier: 1.2,
+};
+export const WEEKEND_DAYS = [0, 6]; // Days of the week (0 = Sunday) using the weekend profile
+export const PUBLIC_HOLIDAYS = ["01-01", "12-25", "12-26"]; // "MM-DD", every year; use the weekend profile
+// Demand multiplier for each month, January first
+export const SEASONAL_DEMAND_MULTIPLIERS = [
+  0.9, 0.95, 1.0, 1.0, 1.0, 0.95, 0.85, 0.8, 1.05, 1.05, 1.0, 0.9,
+];
+
+// --- Crowding Configuration ---
+// Durations are on the game clock (1 game hour passes in ~0.36 real seconds at 1x)
+export const PASSENGER_PATIENCE_MS = 96 * 60 * 60 * 1000; // Average time a passenger will wait before giving up
+export const PASSENGER_PATIENCE_VARIANCE = 0.5; // Each passenger's patience is +/- this fraction of the average
+export const STATION_MAX_CAPACITY = 20; // Waiting passengers a station holds before it is overcrowded
+export const OVERCROWDING_GRACE_MS = 48 * 60 * 60 * 1000; // How long a station may stay overcrowded before failing
+// What happens when a station stays overcrowded past the grace period:
+// "GAME_OVER" ends the game, "PENALTY" charges OVERCROWDING_PENALTY and restarts the timer, "OFF" does nothing
+export const OVERCROWDING_FAILURE_MODE: "GAME_OVER" | "PENALTY" | "OFF" =
+  "PENALTY";
+export const OVERCROWDING_PENALTY = 1000; // Fine in dollars per failure in "PENALTY" mode
+
+// --- Statistics Configuration ---
+export const STATS_HOURLY_BUCKETS = 7 * 24; // Game hours of hourly statistics to keep
+export const STATS_DAILY_BUCKETS = 365; // Game days of daily statistics to keep (older days are dropped)
+
+// --- Builder Configuration ---
+export const UNDO_HISTORY_LIMIT = 50; // Builder actions that can be undone (oldest are forgotten)
+export const MAX_STATION_NAME_LENGTH = 20; // Characters allowed in a station's display name
+export const DRAG_SNAP_RADIUS = 1.5; // Grid squares from the pointer within which a dragged line snaps to a station
 
 // --- Simulation Time Configuration ---
 // Game runs at this many milliseconds per real second for 1x speed
@@ -24,6 +123,11 @@ export const BASE_SPAWN_RATE = 0.2; // Base passengers per game-hour (before den
 // 604,800,000 ms / 60 sec = 10,080,000 ms/sec
 export const BASE_GAME_SPEED = (7 * 24 * 60 * 60 * 1000) / 60;
 
+// The simulation advances in fixed ticks of real (1x) time so results do not
+// depend on frame rate. Higher speeds simply run more ticks per real second.
+export const SIMULATION_TICK_MS = 1000 / 60; // One tick = 1/60 real second at 1x
+export const SIMULATION_MAX_TICKS_PER_ADVANCE = 240; // Drop backlog beyond this (e.g. after tab switch)
+
 // Initial game start time (2025-01-01 08:00:00)
 export const GAME_START_TIME_ISO = "2025-01-01T08:00:00";
 
@@ -31,5 +135,8 @@ export const GAME_START_TIME_ISO = "2025-01-01T08:00:00";
 export const STARTING_MONEY = 10000; // Starting cash in dollars
 export const STATION_BUILD_COST = 500; // Cost to build one station
 export const LINE_BUILD_COST_PER_SQUARE = 50; // Cost per grid square to build a line
-export const TRAIN_RUNNING_COST_PER_SQUARE = 2; // Cost per grid square for train travel
+export const BRIDGE_BUILD_COST_PER_SQUARE = 200; // Cost per grid square of track bridging water
+export const TUNNEL_BUILD_COST_PER_SQUARE = 350; // Cost per grid square of track tunnelling under water or through mountains
+export const MAX_BRIDGE_SPAN_SQUARES = 4; // Longer water crossings need a tunnel
 export const TICKET_REVENUE = 2; // Revenue per completed passenger journey
+export const CREDIT_LIMIT = 5000; // How far below zero new lines may take the balance
@@ -19,3 +19,4 @@ export * from "./managers";
 
 // Controller
 export { GameController, type StateChangeListener } from "./GameController";
+export { CommandHistory, type HistoryEntry } from "./CommandHistory";
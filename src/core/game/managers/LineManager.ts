@@ -5,14 +5,28 @@
  */
 
 import type { GameState } from "../models/GameState";
-import type { MetroLine, LineColor } from "../models/MetroLine";
+import type { MetroLine, LineBranch, LineColor } from "../models/MetroLine";
 import {
   isLineLoop,
   canAddStationToLine,
   createLine,
+  generateBranchId,
+  getLineStationIds,
   LINE_COLORS,
 } from "../models/MetroLine";
-import { hasLineWithColor } from "../models/GameState";
+import { hasLineWithColor, saveGameState } from "../models/GameState";
+import {
+  calculateLineCost,
+  canAfford,
+  chargeLineEditCost,
+  deductLineCost,
+  deductTrainPurchase,
+  refundLineCost,
+  refundTrainPurchase,
+} from "../simulation/Economics";
+import { DEFAULT_TRAIN_TYPE, TRAIN_TYPES } from "../config";
+import { remapTrainsAfterRouteChange } from "../simulation/TrainMovement";
+import { gameRandom } from "../models/GameRandom";
 
 export interface LineActionResult {
   success: boolean;
@@ -20,6 +34,11 @@ export interface LineActionResult {
   data?: MetroLine;
 }
 
+/**
+ * Which terminus of a linear line to extend
+ */
+export type LineEnd = "START" | "END";
+
 /**
  * State for a line being built
  */
@@ -28,6 +47,19 @@ export interface BuildingLine {
   stationIds: string[];
 }
 
+/**
+ * Running cost of the line being built, for feedback while drawing it
+ */
+export interface LineCostPreview {
+  segmentCost: number; // Track to the station under the cursor (0 if none)
+  lineCost: number; // Whole line so far, including that pending segment
+  balanceAfter: number; // Money left once the line and its first train are paid for
+  withinCreditLimit: boolean;
+}
+
+// A completed line opens with one train of the default type
+const FIRST_TRAIN_PRICE = TRAIN_TYPES[DEFAULT_TRAIN_TYPE].purchasePrice;
+
 export class LineManager {
   private currentLine: BuildingLine | null = null;
 
@@ -101,6 +133,52 @@ export class LineManager {
     return { success: true };
   }
 
+  /**
+   * Preview what the line being built will cost
+   * @param pendingStationId Station under the cursor, priced as the next stop
+   * if it can be added
+   * @returns The preview, or null if no line is being built
+   */
+  previewLineCost(pendingStationId?: string): LineCostPreview | null {
+    if (!this.currentLine) return null;
+
+    const stationIds = this.currentLine.stationIds;
+    const currentCost = this.getDraftCost(stationIds);
+    const canAddPending =
+      pendingStationId !== undefined &&
+      stationIds.length > 0 &&
+      this.state.stations.some((s) => s.id === pendingStationId) &&
+      canAddStationToLine(stationIds, pendingStationId);
+    const lineCost = canAddPending
+      ? this.getDraftCost([...stationIds, pendingStationId])
+      : currentCost;
+
+    const openingCost = lineCost + FIRST_TRAIN_PRICE;
+
+    return {
+      segmentCost: lineCost - currentCost,
+      lineCost,
+      balanceAfter: this.state.money - openingCost,
+      withinCreditLimit: canAfford(this.state, openingCost),
+    };
+  }
+
+  /**
+   * Build cost of a line through the given stops
+   */
+  private getDraftCost(stationIds: string[]): number {
+    const draft: MetroLine = {
+      id: "",
+      color: this.currentLine?.color ?? LINE_COLORS[0],
+      stationIds,
+      isLoop: isLineLoop(stationIds),
+      branches: [],
+      expressStationIds: [],
+      trains: [],
+    };
+    return calculateLineCost(draft, this.state).total;
+  }
+
   /**
    * Cancel the current line being built
    */
@@ -120,6 +198,15 @@ export class LineManager {
       return { success: false, error: "Line must have at least 2 stations" };
     }
 
+    const cost =
+      this.getDraftCost(this.currentLine.stationIds) + FIRST_TRAIN_PRICE;
+    if (!canAfford(this.state, cost)) {
+      return {
+        success: false,
+        error: "Not enough money - this line would exceed your credit limit",
+      };
+    }
+
     // Check for loop
     const isLoop = isLineLoop(this.currentLine.stationIds);
 
@@ -127,10 +214,12 @@ export class LineManager {
     const line = createLine(
       this.currentLine.color,
       this.currentLine.stationIds,
+      gameRandom(this.state),
       isLoop,
     );
 
-    // Add to state (deduct costs will be handled separately)
+    // Pay for the track and add to state
+    deductLineCost(this.state, line);
     this.state.lines.push(line);
 
     // Clear current line
@@ -139,6 +228,378 @@ export class LineManager {
     return { success: true, data: line };
   }
 
+  /**
+   * Delete a line and its trains, refunding the build cost and trains
+   */
+  deleteLine(lineId: string): LineActionResult {
+    const index = this.state.lines.findIndex((l) => l.id === lineId);
+    if (index === -1) {
+      return { success: false, error: "Line not found" };
+    }
+
+    const line = this.state.lines[index];
+    refundLineCost(this.state, line);
+    line.trains.forEach((train) => refundTrainPurchase(this.state, train));
+    this.state.lines.splice(index, 1);
+    saveGameState(this.state);
+
+    return { success: true, data: line };
+  }
+
+  /**
+   * Put back a deleted line with its original ID, trains and list position
+   * Used to undo a deletion, so the build cost and trains are charged again
+   */
+  restoreLine(line: MetroLine, index: number): LineActionResult {
+    if (hasLineWithColor(this.state, line.color)) {
+      return {
+        success: false,
+        error: `Line with color ${line.color} already exists`,
+      };
+    }
+
+    const missingStation = getLineStationIds(line).some(
+      (id) => !this.state.stations.some((s) => s.id === id),
+    );
+    if (missingStation) {
+      return { success: false, error: "Station not found" };
+    }
+
+    // Trains come back empty; their riders were dropped when the line went
+    const restored: MetroLine = {
+      ...copyLineTrack(line),
+      trains: line.trains.map((train) => ({ ...train, passengers: [] })),
+    };
+
+    deductLineCost(this.state, restored);
+    restored.trains.forEach((train) => deductTrainPurchase(this.state, train));
+    this.state.lines.splice(index, 0, restored);
+    saveGameState(this.state);
+
+    return { success: true, data: restored };
+  }
+
+  /**
+   * Extend a linear line past one of its termini
+   */
+  extendLine(
+    lineId: string,
+    stationId: string,
+    end: LineEnd,
+  ): LineActionResult {
+    const line = this.getLineById(lineId);
+    if (!line) {
+      return { success: false, error: "Line not found" };
+    }
+    if (line.isLoop) {
+      return { success: false, error: "Loop lines have no ends to extend" };
+    }
+
+    return this.insertStation(
+      lineId,
+      stationId,
+      end === "START" ? 0 : line.stationIds.length,
+    );
+  }
+
+  /**
+   * Insert a station into a line so it becomes stop number `index`
+   * On linear lines 0 and stationIds.length extend the line; on loops 0
+   * inserts on the segment that closes the loop.
+   * @param expressStationIds Express stops to restore (when undoing a removal)
+   */
+  insertStation(
+    lineId: string,
+    stationId: string,
+    index: number,
+    expressStationIds?: string[],
+  ): LineActionResult {
+    const line = this.getLineById(lineId);
+    if (!line) {
+      return { success: false, error: "Line not found" };
+    }
+    if (!this.state.stations.some((s) => s.id === stationId)) {
+      return { success: false, error: "Station not found" };
+    }
+    if (getLineStationIds(line).includes(stationId)) {
+      return { success: false, error: "Station is already on this line" };
+    }
+
+    const maxIndex = line.isLoop
+      ? line.stationIds.length - 1
+      : line.stationIds.length;
+    if (!Number.isInteger(index) || index < 0 || index > maxIndex) {
+      return { success: false, error: "Invalid position on the line" };
+    }
+
+    const stationIds = [...line.stationIds];
+    if (line.isLoop && index === 0) {
+      // The new stop opens and closes the loop
+      stationIds[stationIds.length - 1] = stationId;
+      stationIds.unshift(stationId);
+    } else {
+      stationIds.splice(index, 0, stationId);
+    }
+
+    return this.applyRouteChange(line, stationIds, expressStationIds);
+  }
+
+  /**
+   * Remove a stop from a line (the station itself stays on the map)
+   */
+  removeStationFromLine(lineId: string, stationId: string): LineActionResult {
+    const line = this.getLineById(lineId);
+    if (!line) {
+      return { success: false, error: "Line not found" };
+    }
+
+    const index = line.stationIds.indexOf(stationId);
+    if (index === -1) {
+      const onBranch = line.branches.some((b) =>
+        b.stationIds.includes(stationId),
+      );
+      return {
+        success: false,
+        error: onBranch
+          ? "Station is on a branch - remove the branch instead"
+          : "Station is not on this line",
+      };
+    }
+    if (line.branches.some((b) => b.fromStationId === stationId)) {
+      return {
+        success: false,
+        error: "Cannot remove a stop where a branch joins the line",
+      };
+    }
+
+    const distinctStops = line.isLoop
+      ? line.stationIds.length - 1
+      : line.stationIds.length;
+    const minimumStops = line.isLoop ? 3 : 2;
+    if (distinctStops <= minimumStops) {
+      return {
+        success: false,
+        error: `Line must keep at least ${minimumStops} stations`,
+      };
+    }
+
+    const stationIds = line.stationIds.filter((id) => id !== stationId);
+    if (line.isLoop && index === 0) {
+      // Close the loop at the next stop instead
+      stationIds.push(stationIds[0]);
+    }
+
+    return this.applyRouteChange(line, stationIds);
+  }
+
+  /**
+   * Add a branch that leaves a linear line's trunk at a junction stop
+   * Trains keep running the trunk until some are assigned to the branch.
+   * @param fromStationId Trunk stop the branch splits off at
+   * @param stationIds Stops on the branch, in order away from the junction
+   * @param branchId ID to use (when restoring a removed branch)
+   * @param trainIds Trains to put back on the branch (when restoring a removed branch)
+   * @param expressStationIds Express stops to restore (when restoring a removed branch)
+   */
+  addBranch(
+    lineId: string,
+    fromStationId: string,
+    stationIds: string[],
+    branchId?: string,
+    trainIds: string[] = [],
+    expressStationIds?: string[],
+  ): LineActionResult {
+    const line = this.getLineById(lineId);
+    if (!line) {
+      return { success: false, error: "Line not found" };
+    }
+    if (line.isLoop) {
+      return { success: false, error: "Loop lines cannot have branches" };
+    }
+    if (!line.stationIds.includes(fromStationId)) {
+      return {
+        success: false,
+        error: "Branch must start from a stop on the line",
+      };
+    }
+    if (stationIds.length === 0) {
+      return { success: false, error: "Branch needs at least 1 station" };
+    }
+    if (branchId && line.branches.some((b) => b.id === branchId)) {
+      return { success: false, error: "Branch already exists" };
+    }
+
+    const missingStation = stationIds.some(
+      (id) => !this.state.stations.some((s) => s.id === id),
+    );
+    if (missingStation) {
+      return { success: false, error: "Station not found" };
+    }
+
+    const lineStationIds = getLineStationIds(line);
+    const repeatedStation = stationIds.some(
+      (id, i) => lineStationIds.includes(id) || stationIds.indexOf(id) !== i,
+    );
+    if (repeatedStation) {
+      return { success: false, error: "Station is already on this line" };
+    }
+
+    const newBranch = { id: "", fromStationId, stationIds: [...stationIds] };
+    if (
+      !this.canAffordEdit(line, {
+        ...line,
+        branches: [...line.branches, newBranch],
+      })
+    ) {
+      return {
+        success: false,
+        error: "Not enough money - this branch would exceed your credit limit",
+      };
+    }
+
+    const previousLine = copyLineTrack(line);
+    const branch: LineBranch = {
+      ...newBranch,
+      id: branchId ?? generateBranchId(gameRandom(this.state)),
+    };
+    line.branches.push(branch);
+    chargeLineEditCost(this.state, line, previousLine);
+    if (trainIds.length > 0) {
+      line.trains
+        .filter((t) => trainIds.includes(t.id))
+        .forEach((t) => (t.branchId = branch.id));
+      remapTrainsAfterRouteChange(line, previousLine, this.state);
+    }
+    if (expressStationIds) {
+      line.expressStationIds = [...expressStationIds];
+      pruneExpressStops(line);
+    }
+    saveGameState(this.state);
+
+    return { success: true, data: line };
+  }
+
+  /**
+   * Remove a branch, refunding its track
+   * Trains assigned to it move back onto the trunk service.
+   */
+  removeBranch(lineId: string, branchId: string): LineActionResult {
+    const line = this.getLineById(lineId);
+    if (!line) {
+      return { success: false, error: "Line not found" };
+    }
+
+    const index = line.branches.findIndex((b) => b.id === branchId);
+    if (index === -1) {
+      return { success: false, error: "Branch not found" };
+    }
+
+    const previousLine = copyLineTrack(line);
+    line.branches.splice(index, 1);
+    chargeLineEditCost(this.state, line, previousLine);
+    remapTrainsAfterRouteChange(line, previousLine, this.state);
+    pruneExpressStops(line);
+    saveGameState(this.state);
+
+    return { success: true, data: line };
+  }
+
+  /**
+   * Mark a stop as an express stop, or clear the mark
+   * Express trains only call at express stops and the termini.
+   */
+  toggleExpressStop(lineId: string, stationId: string): LineActionResult {
+    const line = this.getLineById(lineId);
+    if (!line) {
+      return { success: false, error: "Line not found" };
+    }
+
+    if (!getLineStationIds(line).includes(stationId)) {
+      return { success: false, error: "Station is not on this line" };
+    }
+
+    line.expressStationIds = line.expressStationIds.includes(stationId)
+      ? line.expressStationIds.filter((id) => id !== stationId)
+      : [...line.expressStationIds, stationId];
+    saveGameState(this.state);
+
+    return { success: true, data: line };
+  }
+
+  /**
+   * Find where adding a station to a line costs the least to build
+   * @returns The index to pass to insertStation, or -1 if it cannot be added
+   */
+  findCheapestInsertIndex(lineId: string, stationId: string): number {
+    const line = this.getLineById(lineId);
+    if (!line || getLineStationIds(line).includes(stationId)) return -1;
+
+    const maxIndex = line.isLoop
+      ? line.stationIds.length - 1
+      : line.stationIds.length;
+    let bestIndex = -1;
+    let bestCost = Infinity;
+
+    for (let index = 0; index <= maxIndex; index++) {
+      const stationIds = [...line.stationIds];
+      if (line.isLoop && index === 0) {
+        stationIds[stationIds.length - 1] = stationId;
+        stationIds.unshift(stationId);
+      } else {
+        stationIds.splice(index, 0, stationId);
+      }
+
+      const cost = calculateLineCost({ ...line, stationIds }, this.state).total;
+      if (cost < bestCost) {
+        bestCost = cost;
+        bestIndex = index;
+      }
+    }
+
+    return bestIndex;
+  }
+
+  /**
+   * Swap in a line's new trunk stops, settling the cost difference and moving
+   * trains onto valid indices
+   */
+  private applyRouteChange(
+    line: MetroLine,
+    stationIds: string[],
+    expressStationIds?: string[],
+  ): LineActionResult {
+    if (!this.canAffordEdit(line, { ...line, stationIds })) {
+      return {
+        success: false,
+        error: "Not enough money - this change would exceed your credit limit",
+      };
+    }
+
+    const previousLine = copyLineTrack(line);
+    line.stationIds = stationIds;
+    chargeLineEditCost(this.state, line, previousLine);
+    remapTrainsAfterRouteChange(line, previousLine, this.state);
+    if (expressStationIds) {
+      line.expressStationIds = [...expressStationIds];
+    }
+    pruneExpressStops(line);
+    saveGameState(this.state);
+
+    return { success: true, data: line };
+  }
+
+  /**
+   * Check that the player can pay for rebuilding a line's track
+   * Edits that cost nothing or earn a refund are always allowed.
+   * @param editedLine The line as it would be after the edit
+   */
+  private canAffordEdit(line: MetroLine, editedLine: MetroLine): boolean {
+    const cost =
+      calculateLineCost(editedLine, this.state).total -
+      calculateLineCost(line, this.state).total;
+    return cost <= 0 || canAfford(this.state, cost);
+  }
+
   /**
    * Get a line by ID
    */
@@ -158,7 +619,33 @@ export class LineManager {
    */
   getLinesForStation(stationId: string): MetroLine[] {
     return this.state.lines.filter((line) =>
-      line.stationIds.includes(stationId),
+      getLineStationIds(line).includes(stationId),
     );
   }
 }
+
+/**
+ * Copy a line with its own trunk and branch stop lists, so later edits to
+ * the original don't show through
+ */
+function copyLineTrack(line: MetroLine): MetroLine {
+  return {
+    ...line,
+    stationIds: [...line.stationIds],
+    branches: line.branches.map((b) => ({
+      ...b,
+      stationIds: [...b.stationIds],
+    })),
+    expressStationIds: [...line.expressStationIds],
+  };
+}
+
+/**
+ * Drop express marks from stops that are no longer on the line
+ */
+function pruneExpressStops(line: MetroLine): void {
+  const stationIds = getLineStationIds(line);
+  line.expressStationIds = line.expressStationIds.filter((id) =>
+    stationIds.includes(id),
+  );
+}
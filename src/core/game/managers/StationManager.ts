@@ -6,13 +6,21 @@
 
 import type { GameState } from "../models/GameState";
 import type { Station } from "../models/Station";
+import { getLineStationIds } from "../models/MetroLine";
 import {
   generateStationId,
-  generateStationLabel,
+  getNextStationLabel,
   createStation,
 } from "../models/Station";
-import { deductStationCost } from "../simulation/Economics";
+import {
+  calculateLineCost,
+  canAfford,
+  deductStationCost,
+  refundStationCost,
+} from "../simulation/Economics";
+import { updateTrainPath } from "../simulation/TrainMovement";
 import { saveGameState } from "../models/GameState";
+import { MAX_STATION_NAME_LENGTH } from "../config";
 
 export interface ValidationResult {
   valid: boolean;
@@ -30,17 +38,31 @@ export class StationManager {
 
   /**
    * Check if a station exists at the given vertex coordinates
+   * @param ignoreStationId Station to leave out (one being moved)
    */
-  hasStationAt(vertexX: number, vertexY: number): boolean {
-    const stationId = generateStationId(vertexX, vertexY);
-    return this.state.stations.some((s) => s.id === stationId);
+  hasStationAt(
+    vertexX: number,
+    vertexY: number,
+    ignoreStationId?: string,
+  ): boolean {
+    return this.state.stations.some(
+      (s) =>
+        s.vertexX === vertexX &&
+        s.vertexY === vertexY &&
+        s.id !== ignoreStationId,
+    );
   }
 
   /**
    * Check if any adjacent vertex (4-connected) has a station
    * This enforces minimum spacing rule
+   * @param ignoreStationId Station to leave out (one being moved)
    */
-  hasAdjacentStation(vertexX: number, vertexY: number): boolean {
+  hasAdjacentStation(
+    vertexX: number,
+    vertexY: number,
+    ignoreStationId?: string,
+  ): boolean {
     const adjacentVertices = [
       { x: vertexX - 1, y: vertexY },
       { x: vertexX + 1, y: vertexY },
@@ -48,7 +70,9 @@ export class StationManager {
       { x: vertexX, y: vertexY + 1 },
     ];
 
-    return adjacentVertices.some((v) => this.hasStationAt(v.x, v.y));
+    return adjacentVertices.some((v) =>
+      this.hasStationAt(v.x, v.y, ignoreStationId),
+    );
   }
 
   /**
@@ -66,13 +90,13 @@ export class StationManager {
     const { width, height, squares } = this.state.map;
 
     for (const tile of adjacentTiles) {
-      // If tile is out of bounds or is land, vertex is not on water
+      // If tile is out of bounds or is not water, vertex is not on water
       if (
         tile.x < 0 ||
         tile.x >= width ||
         tile.y < 0 ||
         tile.y >= height ||
-        squares[tile.y][tile.x].type === "LAND"
+        squares[tile.y][tile.x].type !== "WATER"
       ) {
         return false;
       }
@@ -81,6 +105,31 @@ export class StationManager {
     return true;
   }
 
+  /**
+   * Check if the vertex is in the mountains (touches mountain but no land)
+   */
+  isMountain(vertexX: number, vertexY: number): boolean {
+    if (this.isOnLand(vertexX, vertexY)) return false;
+
+    const adjacentTiles = [
+      { x: vertexX - 1, y: vertexY - 1 },
+      { x: vertexX, y: vertexY - 1 },
+      { x: vertexX - 1, y: vertexY },
+      { x: vertexX, y: vertexY },
+    ];
+
+    const { width, height, squares } = this.state.map;
+
+    return adjacentTiles.some(
+      (tile) =>
+        tile.x >= 0 &&
+        tile.x < width &&
+        tile.y >= 0 &&
+        tile.y < height &&
+        squares[tile.y][tile.x].type === "MOUNTAIN",
+    );
+  }
+
   /**
    * Check if vertex is on any land tile
    */
@@ -112,8 +161,13 @@ export class StationManager {
 
   /**
    * Validate if a station can be placed at the given vertex
+   * @param ignoreStationId Station to leave out of the spacing checks (one being moved)
    */
-  canPlaceStation(vertexX: number, vertexY: number): ValidationResult {
+  canPlaceStation(
+    vertexX: number,
+    vertexY: number,
+    ignoreStationId?: string,
+  ): ValidationResult {
     // Check bounds
     if (vertexX < 0 || vertexX > this.state.map.width) {
       return { valid: false, reason: "X coordinate out of bounds" };
@@ -127,8 +181,13 @@ export class StationManager {
       return { valid: false, reason: "Cannot place station on water" };
     }
 
+    // Mountains are impassable
+    if (this.isMountain(vertexX, vertexY)) {
+      return { valid: false, reason: "Cannot place station on mountains" };
+    }
+
     // Check if station already exists
-    if (this.hasStationAt(vertexX, vertexY)) {
+    if (this.hasStationAt(vertexX, vertexY, ignoreStationId)) {
       return {
         valid: false,
         reason: "Station already exists at this location",
@@ -136,7 +195,7 @@ export class StationManager {
     }
 
     // Check adjacent spacing rule
-    if (this.hasAdjacentStation(vertexX, vertexY)) {
+    if (this.hasAdjacentStation(vertexX, vertexY, ignoreStationId)) {
       return {
         valid: false,
         reason: "Cannot place station adjacent to another station",
@@ -156,8 +215,13 @@ export class StationManager {
     }
 
     // Create the station
-    const label = generateStationLabel(this.state.stations.length);
-    const station = createStation(vertexX, vertexY, label);
+    const label = getNextStationLabel(this.state.stations);
+    const station = createStation(
+      generateStationId(this.state.nextStationId++),
+      vertexX,
+      vertexY,
+      label,
+    );
 
     // Deduct cost
     deductStationCost(this.state);
@@ -180,7 +244,7 @@ export class StationManager {
 
     // Check if station is used by any line
     const usedByLine = this.state.lines.some((line) =>
-      line.stationIds.includes(stationId),
+      getLineStationIds(line).includes(stationId),
     );
     if (usedByLine) {
       return {
@@ -189,19 +253,137 @@ export class StationManager {
       };
     }
 
-    // Remove station
+    // Remove station and refund its cost
     this.state.stations.splice(index, 1);
+    refundStationCost(this.state);
     saveGameState(this.state);
 
     return { success: true };
   }
 
+  /**
+   * Put back a removed station with its original ID, label and list position
+   * Used to undo a removal, so the build cost is charged again
+   */
+  restoreStation(station: Station, index: number): ActionResult {
+    const validation = this.canPlaceStation(station.vertexX, station.vertexY);
+    if (!validation.valid) {
+      return { success: false, error: validation.reason };
+    }
+
+    const restored: Station = { ...station, passengers: [] };
+    delete restored.overcrowdedSince;
+
+    deductStationCost(this.state);
+    this.state.stations.splice(index, 0, restored);
+    saveGameState(this.state);
+
+    return { success: true, data: restored };
+  }
+
+  /**
+   * Move a station to another vertex, keeping its ID, name and passengers
+   * Lines through the station follow it; the change in their build cost is
+   * charged or refunded
+   */
+  moveStation(
+    stationId: string,
+    vertexX: number,
+    vertexY: number,
+  ): ActionResult {
+    const station = this.getStationById(stationId);
+    if (!station) {
+      return { success: false, error: "Station not found" };
+    }
+    if (station.vertexX === vertexX && station.vertexY === vertexY) {
+      return { success: false, error: "Station is already there" };
+    }
+
+    const validation = this.canPlaceStation(vertexX, vertexY, stationId);
+    if (!validation.valid) {
+      return { success: false, error: validation.reason };
+    }
+
+    const lines = this.state.lines.filter((line) =>
+      getLineStationIds(line).includes(stationId),
+    );
+    const linesCost = () =>
+      lines.reduce(
+        (sum, line) => sum + calculateLineCost(line, this.state).total,
+        0,
+      );
+
+    // Price the track at the new position, then put the station back if
+    // the rebuild is unaffordable
+    const previous = { vertexX: station.vertexX, vertexY: station.vertexY };
+    const costBefore = linesCost();
+    station.vertexX = vertexX;
+    station.vertexY = vertexY;
+    const cost = linesCost() - costBefore;
+
+    if (cost > 0 && !canAfford(this.state, cost)) {
+      station.vertexX = previous.vertexX;
+      station.vertexY = previous.vertexY;
+      return {
+        success: false,
+        error: "Not enough money - moving would exceed your credit limit",
+      };
+    }
+
+    this.state.money -= cost;
+
+    // Trains keep their progress along the reshaped track
+    for (const line of lines) {
+      for (const train of line.trains) {
+        updateTrainPath(train, line, this.state);
+      }
+    }
+    saveGameState(this.state);
+
+    return { success: true, data: station };
+  }
+
+  /**
+   * Give a station a new display name
+   */
+  renameStation(stationId: string, name: string): ActionResult {
+    const station = this.getStationById(stationId);
+    if (!station) {
+      return { success: false, error: "Station not found" };
+    }
+
+    const label = name.trim();
+    if (label.length === 0) {
+      return { success: false, error: "Station name cannot be empty" };
+    }
+    if (label.length > MAX_STATION_NAME_LENGTH) {
+      return {
+        success: false,
+        error: `Station name must be at most ${MAX_STATION_NAME_LENGTH} characters`,
+      };
+    }
+    if (
+      this.state.stations.some(
+        (s) =>
+          s.id !== stationId && s.label.toLowerCase() === label.toLowerCase(),
+      )
+    ) {
+      return { success: false, error: "Another station already has that name" };
+    }
+
+    station.label = label;
+    saveGameState(this.state);
+
+    return { success: true, data: station };
+  }
+
   /**
    * Get a station by vertex coordinates
    */
   getStationAt(vertexX: number, vertexY: number): Station | undefined {
-    const stationId = generateStationId(vertexX, vertexY);
-    return this.state.stations.find((s) => s.id === stationId);
+    return this.state.stations.find(
+      (s) => s.vertexX === vertexX && s.vertexY === vertexY,
+    );
   }
 
   /**
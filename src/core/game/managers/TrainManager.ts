@@ -5,10 +5,26 @@
  */
 
 import type { GameState } from "../models/GameState";
-import type { MetroLine } from "../models/MetroLine";
-import type { Train } from "../models/Train";
-import { TRAIN_MAX_CAPACITY } from "../config";
+import type { MetroLine, StopPattern } from "../models/MetroLine";
+import {
+  getServiceStationIds,
+  getTrainBranch,
+  STOP_PATTERNS,
+} from "../models/MetroLine";
+import type { Train, TrainTypeId } from "../models/Train";
+import { isTrainTypeId } from "../models/Train";
+import {
+  DEFAULT_TRAIN_TYPE,
+  MAX_TRAINS_PER_LINE,
+  TRAIN_TYPES,
+} from "../config";
 import { saveGameState } from "../models/GameState";
+import { gameRandom, generateEntityId } from "../models/GameRandom";
+import {
+  canAfford,
+  deductTrainPurchase,
+  refundTrainPurchase,
+} from "../simulation/Economics";
 
 export interface ActionResult {
   success: boolean;
@@ -16,9 +32,17 @@ export interface ActionResult {
   data?: Train;
 }
 
-export class TrainManager {
-  private static readonly MAX_TRAINS_PER_LINE = 5;
+/**
+ * A train to buy back exactly as it was, e.g. when undoing its removal
+ */
+export interface TrainPurchase {
+  trainId: string;
+  trainType: TrainTypeId;
+  stopPattern?: StopPattern;
+  fleetIndex: number; // Position it had in the line's trains
+}
 
+export class TrainManager {
   constructor(private state: GameState) {}
 
   /**
@@ -45,28 +69,37 @@ export class TrainManager {
 
   /**
    * Create a train for a line with specific configuration
+   * @param branchId Branch the train runs to; the trunk when unset
+   * @param trainId ID to use (when buying back a removed train)
    */
   createTrainForLine(
     line: MetroLine,
     direction: 1 | -1,
     startStationIdx: number,
+    branchId?: string,
+    trainType: TrainTypeId = DEFAULT_TRAIN_TYPE,
+    stopPattern: StopPattern = "ALL_STOPS",
+    trainId?: string,
   ): Train {
+    const stopCount = getServiceStationIds(line, branchId).length;
+
     // Calculate target station index based on direction
     let targetStationIdx: number;
     if (direction === 1) {
-      targetStationIdx = Math.min(
-        startStationIdx + 1,
-        line.stationIds.length - 1,
-      );
+      targetStationIdx = Math.min(startStationIdx + 1, stopCount - 1);
     } else {
       targetStationIdx = Math.max(startStationIdx - 1, 0);
     }
 
     return {
-      id: `train-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+      id: trainId ?? generateEntityId("train", gameRandom(this.state)),
       lineId: line.id,
+      trainType,
+      ...(branchId ? { branchId } : {}),
+      ...(stopPattern !== "ALL_STOPS" ? { stopPattern } : {}),
       state: "MOVING",
       dwellRemaining: 0,
+      dwellDuration: 0,
       currentStationIdx: startStationIdx,
       targetStationIdx,
       progress: 0,
@@ -74,20 +107,44 @@ export class TrainManager {
       currentSegment: null,
       totalLength: 0,
       passengers: [],
-      capacity: TRAIN_MAX_CAPACITY,
+      capacity: TRAIN_TYPES[trainType].capacity,
     };
   }
 
   /**
-   * Add a train to a line
+   * Buy a train for a line
+   * @param branchId Branch the train runs to; the trunk when unset
+   * @param trainType Rolling stock to buy
+   * @param stopPattern Stops the new train calls at
+   * @param trainId ID to use (when buying back a removed train)
+   * @param fleetIndex Position in the line's trains (when buying back a removed train)
    */
-  addTrainToLine(lineId: string): ActionResult {
+  addTrainToLine(
+    lineId: string,
+    branchId?: string,
+    trainType: TrainTypeId = DEFAULT_TRAIN_TYPE,
+    stopPattern: StopPattern = "ALL_STOPS",
+    trainId?: string,
+    fleetIndex?: number,
+  ): ActionResult {
     const line = this.state.lines.find((l) => l.id === lineId);
     if (!line) {
       return { success: false, error: "Line not found" };
     }
 
-    if (line.trains.length >= TrainManager.MAX_TRAINS_PER_LINE) {
+    if (branchId && !line.branches.some((b) => b.id === branchId)) {
+      return { success: false, error: "Branch not found" };
+    }
+
+    if (!isTrainTypeId(trainType)) {
+      return { success: false, error: "Unknown train type" };
+    }
+
+    if (!STOP_PATTERNS.includes(stopPattern)) {
+      return { success: false, error: "Unknown stopping pattern" };
+    }
+
+    if (line.trains.length >= MAX_TRAINS_PER_LINE) {
       return { success: false, error: "Maximum trains reached for this line" };
     }
 
@@ -95,27 +152,43 @@ export class TrainManager {
       return { success: false, error: "Line needs at least 2 stations" };
     }
 
-    // Calculate train number and direction
-    const trainNumber = line.trains.length + 1;
+    if (!canAfford(this.state, TRAIN_TYPES[trainType].purchasePrice)) {
+      return {
+        success: false,
+        error: "Not enough money - this train would exceed your credit limit",
+      };
+    }
+
+    // Calculate train number within the service and direction
+    const trainNumber = this.getServiceTrains(line, branchId).length + 1;
     const direction: 1 | -1 = trainNumber % 2 === 1 ? 1 : -1;
 
     // Calculate starting position
     const startStationIdx = this.calculateStartStationIdx(
       trainNumber,
       direction,
-      line.stationIds.length,
+      getServiceStationIds(line, branchId).length,
     );
 
     // Create and add train
-    const train = this.createTrainForLine(line, direction, startStationIdx);
-    line.trains.push(train);
+    const train = this.createTrainForLine(
+      line,
+      direction,
+      startStationIdx,
+      branchId,
+      trainType,
+      stopPattern,
+      trainId,
+    );
+    deductTrainPurchase(this.state, train);
+    line.trains.splice(fleetIndex ?? line.trains.length, 0, train);
 
     saveGameState(this.state);
     return { success: true, data: train };
   }
 
   /**
-   * Remove a train from a line
+   * Remove a train from a line, refunding its purchase price
    */
   removeTrainFromLine(lineId: string, trainId?: string): ActionResult {
     const line = this.state.lines.find((l) => l.id === lineId);
@@ -128,20 +201,107 @@ export class TrainManager {
     }
 
     // Remove last train if no specific train ID provided
-    if (!trainId) {
-      line.trains.pop();
-    } else {
-      const index = line.trains.findIndex((t) => t.id === trainId);
-      if (index === -1) {
-        return { success: false, error: "Train not found" };
-      }
-      line.trains.splice(index, 1);
+    const index = trainId
+      ? line.trains.findIndex((t) => t.id === trainId)
+      : line.trains.length - 1;
+    if (index === -1) {
+      return { success: false, error: "Train not found" };
     }
+    const [train] = line.trains.splice(index, 1);
+    refundTrainPurchase(this.state, train);
 
     saveGameState(this.state);
     return { success: true };
   }
 
+  /**
+   * Add or remove trains until a service runs the requested number
+   * Trains are added and removed from the end of the service's fleet.
+   * A branch or the trunk may run no trains as long as the line keeps one.
+   * @param branchId Branch service to change; the trunk service when unset
+   * @param trainType Rolling stock to buy for added trains
+   * @param stopPattern Stops added trains call at
+   * @param purchases Exact trains to buy first, before any of trainType
+   */
+  setTrainCount(
+    lineId: string,
+    count: number,
+    branchId?: string,
+    trainType: TrainTypeId = DEFAULT_TRAIN_TYPE,
+    stopPattern: StopPattern = "ALL_STOPS",
+    purchases: TrainPurchase[] = [],
+  ): ActionResult {
+    const line = this.state.lines.find((l) => l.id === lineId);
+    if (!line) {
+      return { success: false, error: "Line not found" };
+    }
+
+    if (branchId && !line.branches.some((b) => b.id === branchId)) {
+      return { success: false, error: "Branch not found" };
+    }
+
+    const minCount = line.branches.length > 0 ? 0 : 1;
+    if (
+      !Number.isInteger(count) ||
+      count < minCount ||
+      count > MAX_TRAINS_PER_LINE
+    ) {
+      return {
+        success: false,
+        error: `Train count must be between ${minCount} and ${MAX_TRAINS_PER_LINE}`,
+      };
+    }
+
+    const total =
+      line.trains.length - this.getServiceTrains(line, branchId).length + count;
+    if (total < 1) {
+      return { success: false, error: "Must have at least one train per line" };
+    }
+    if (total > MAX_TRAINS_PER_LINE) {
+      return { success: false, error: "Maximum trains reached for this line" };
+    }
+
+    // Price the whole order up front so a failed purchase can't leave
+    // part of it bought
+    const needed = Math.max(
+      0,
+      count - this.getServiceTrains(line, branchId).length,
+    );
+    const cost = Array.from(
+      { length: needed },
+      (_, i) => TRAIN_TYPES[purchases[i]?.trainType ?? trainType].purchasePrice,
+    ).reduce((sum, price) => sum + price, 0);
+    if (!canAfford(this.state, cost)) {
+      return {
+        success: false,
+        error: "Not enough money - these trains would exceed your credit limit",
+      };
+    }
+
+    const queue = [...purchases];
+    while (this.getServiceTrains(line, branchId).length < count) {
+      const purchase = queue.shift();
+      const result = purchase
+        ? this.addTrainToLine(
+            lineId,
+            branchId,
+            purchase.trainType,
+            purchase.stopPattern,
+            purchase.trainId,
+            purchase.fleetIndex,
+          )
+        : this.addTrainToLine(lineId, branchId, trainType, stopPattern);
+      if (!result.success) return result;
+    }
+    while (this.getServiceTrains(line, branchId).length > count) {
+      const last = this.getServiceTrains(line, branchId).pop()!;
+      const result = this.removeTrainFromLine(lineId, last.id);
+      if (!result.success) return result;
+    }
+
+    return { success: true };
+  }
+
   /**
    * Get train count for a line
    */
@@ -150,22 +310,41 @@ export class TrainManager {
     return line?.trains.length ?? 0;
   }
 
+  /**
+   * Get the number of trains running one service of a line
+   * @param branchId Branch service to count; the trunk service when unset
+   */
+  getServiceTrainCount(lineId: string, branchId?: string): number {
+    const line = this.state.lines.find((l) => l.id === lineId);
+    return line ? this.getServiceTrains(line, branchId).length : 0;
+  }
+
   /**
    * Check if can add more trains to a line
+   * @param trainType Rolling stock that would be bought
    */
-  canAddTrain(lineId: string): boolean {
+  canAddTrain(
+    lineId: string,
+    trainType: TrainTypeId = DEFAULT_TRAIN_TYPE,
+  ): boolean {
     const line = this.state.lines.find((l) => l.id === lineId);
     if (!line) return false;
-    return line.trains.length < TrainManager.MAX_TRAINS_PER_LINE;
+    return (
+      line.trains.length < MAX_TRAINS_PER_LINE &&
+      canAfford(this.state, TRAIN_TYPES[trainType].purchasePrice)
+    );
   }
 
   /**
-   * Check if can remove trains from a line
+   * Check if can remove trains from a service of a line
+   * @param branchId Branch service to check; the trunk service when unset
    */
-  canRemoveTrain(lineId: string): boolean {
+  canRemoveTrain(lineId: string, branchId?: string): boolean {
     const line = this.state.lines.find((l) => l.id === lineId);
     if (!line) return false;
-    return line.trains.length > 1;
+    return (
+      line.trains.length > 1 && this.getServiceTrains(line, branchId).length > 0
+    );
   }
 
   /**
@@ -175,4 +354,20 @@ export class TrainManager {
     const line = this.state.lines.find((l) => l.id === lineId);
     return line?.trains ?? [];
   }
+
+  /**
+   * Get the trains running one service of a line, in fleet order
+   * @param branchId Branch service to list; the trunk service when unset
+   */
+  getServiceTrainsForLine(lineId: string, branchId?: string): Train[] {
+    const line = this.state.lines.find((l) => l.id === lineId);
+    return line ? this.getServiceTrains(line, branchId) : [];
+  }
+
+  /**
+   * Get the trains running one service of a line, in fleet order
+   */
+  private getServiceTrains(line: MetroLine, branchId?: string): Train[] {
+    return line.trains.filter((t) => getTrainBranch(line, t)?.id === branchId);
+  }
 }
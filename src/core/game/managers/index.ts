@@ -10,6 +10,8 @@ export {
 export {
   LineManager,
   type BuildingLine,
+  type LineEnd,
+  type LineCostPreview,
   type LineActionResult,
 } from "./LineManager";
 export {
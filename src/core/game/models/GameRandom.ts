@@ -0,0 +1,44 @@
+/**
+ * Seeded random stream for MetroMap.io
+ * The stream position is stored in GameState.rngState, so it is persisted with
+ * the save and two runs of the same game produce identical results.
+ */
+
+import { randomSeeded, randomHash } from "@engine/utils/random";
+import type { GameState } from "./GameState";
+
+/**
+ * Random function compatible with Math.random
+ */
+export type RandomFn = () => number;
+
+/**
+ * Derive the initial stream state for a game from its seed
+ */
+export function seedRngState(seed: number): number {
+  // Use a different hash input than the map generator so the streams are independent
+  return Math.floor(randomSeeded(`game-${seed}`)() * 4294967296) >>> 0;
+}
+
+/**
+ * Get a random function that draws from (and advances) the game's stream.
+ * Uses the mulberry32 step so the whole generator state is a single uint32.
+ */
+export function gameRandom(state: GameState): RandomFn {
+  return (): number => {
+    state.rngState = (state.rngState + 0x6d2b79f5) >>> 0;
+
+    let t = state.rngState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generate an entity ID such as "p-Xk3l9QaZ" from a random stream
+ */
+export function generateEntityId(prefix: string, random: RandomFn): string {
+  return `${prefix}-${randomHash(8, random)}`;
+}
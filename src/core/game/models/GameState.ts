@@ -5,28 +5,48 @@
 
 import type { MapGrid } from "./MapGrid";
 import type { Station } from "./Station";
-import { generateStationLabel } from "./Station";
+import { generateStationLabel, getNextStationLabel } from "./Station";
 import type { MetroLine, LineColor } from "./MetroLine";
-import type { Passenger } from "./Passenger";
+import type { Passenger, PassengerDropReason } from "./Passenger";
+import { seedRngState } from "./GameRandom";
+import { createGameStatistics, type GameStatistics } from "./Statistics";
 import {
   GAME_START_TIME_ISO,
   STARTING_MONEY,
   STATION_BUILD_COST,
-  LINE_BUILD_COST_PER_SQUARE,
+  PASSENGER_PATIENCE_MS,
+  DEFAULT_TRAIN_TYPE,
+  TRAIN_DEFAULT_SPEED,
+  TRAIN_MIN_DWELL_SECONDS,
 } from "../config";
+import { deductLineCost } from "../simulation/Economics";
 
 const SAVE_GAME_KEY = "metromap-saved-game";
 
+/**
+ * Why and where the game ended
+ */
+export interface GameOver {
+  reason: "OVERCROWDING";
+  stationId: string;
+  time: number; // Game time the game ended
+}
+
 export interface GameState {
   seed: number;
   map: MapGrid;
   stations: Station[];
+  nextStationId: number; // Sequence number for the next station ID
   lines: MetroLine[];
   passengers: Passenger[];
   simulationTime: number;
   money: number;
   isPaused: boolean;
   speed: number;
+  rngState: number; // Position of the seeded random stream (see GameRandom)
+  droppedPassengers: Partial<Record<PassengerDropReason, number>>; // Count per reason
+  gameOver: GameOver | null;
+  statistics: GameStatistics; // See StatisticsTracker
 }
 
 /**
@@ -38,12 +58,17 @@ export function createGameState(seed: number, map: MapGrid): GameState {
     seed,
     map,
     stations: [],
+    nextStationId: 0,
     lines: [],
     passengers: [],
     simulationTime: startDate.getTime(),
     money: STARTING_MONEY,
     isPaused: false,
     speed: 1,
+    rngState: seedRngState(seed),
+    droppedPassengers: {},
+    gameOver: null,
+    statistics: createGameStatistics(startDate.getTime(), STARTING_MONEY),
   };
 }
 
@@ -74,27 +99,6 @@ export function getLineById(
   return state.lines.find((l) => l.id === lineId);
 }
 
-/**
- * Calculate line length for cost calculation
- */
-function calculateLineLength(line: MetroLine, state: GameState): number {
-  if (line.stationIds.length < 2) return 0;
-
-  let totalLength = 0;
-  for (let i = 0; i < line.stationIds.length - 1; i++) {
-    const fromStation = state.stations.find((s) => s.id === line.stationIds[i]);
-    const toStation = state.stations.find(
-      (s) => s.id === line.stationIds[i + 1],
-    );
-    if (fromStation && toStation) {
-      const dx = toStation.vertexX - fromStation.vertexX;
-      const dy = toStation.vertexY - fromStation.vertexY;
-      totalLength += Math.sqrt(dx * dx + dy * dy);
-    }
-  }
-  return totalLength;
-}
-
 /**
  * Add a line to the game state with cost deduction
  */
@@ -103,9 +107,8 @@ export function addLine(state: GameState, line: MetroLine): boolean {
     return false;
   }
 
-  // Deduct line build cost
-  const lineLength = calculateLineLength(line, state);
-  state.money -= lineLength * LINE_BUILD_COST_PER_SQUARE;
+  // Deduct line build cost (including water crossings)
+  deductLineCost(state, line);
 
   state.lines.push(line);
   saveGameState(state);
@@ -117,7 +120,7 @@ export function addLine(state: GameState, line: MetroLine): boolean {
  */
 export function addStation(state: GameState, station: Station): void {
   if (!station.label) {
-    station.label = generateStationLabel(state.stations.length);
+    station.label = getNextStationLabel(state.stations);
   }
 
   // Deduct station build cost
@@ -177,6 +180,11 @@ export function loadGameState(): GameState | null {
         parsed.speed = 1;
       }
 
+      // Ensure the random stream exists (older saves predate it)
+      if (typeof parsed.rngState !== "number") {
+        parsed.rngState = seedRngState(parsed.seed);
+      }
+
       // Ensure each station has passengers array and label
       if (parsed.stations) {
         parsed.stations.forEach((station: Station, index: number) => {
@@ -189,6 +197,12 @@ export function loadGameState(): GameState | null {
         });
       }
 
+      // Older saves used coordinate IDs ("xxyy"), which cannot clash with
+      // sequence IDs, so numbering can start from zero
+      if (typeof parsed.nextStationId !== "number") {
+        parsed.nextStationId = 0;
+      }
+
       // Ensure money exists
       if (parsed.money === undefined || parsed.money === null) {
         parsed.money = STARTING_MONEY;
@@ -200,9 +214,41 @@ export function loadGameState(): GameState | null {
           if (!line.trains) {
             line.trains = [];
           }
+          line.branches ??= [];
+          line.expressStationIds ??= [];
+          // Trains from before rolling stock types were all metro trains
+          // Older saves had a fixed minimum dwell; anything beyond it is a headway hold
+          line.trains.forEach((train) => {
+            train.trainType ??= DEFAULT_TRAIN_TYPE;
+            train.dwellDuration ??= Math.min(
+              train.dwellRemaining,
+              TRAIN_MIN_DWELL_SECONDS * TRAIN_DEFAULT_SPEED,
+            );
+          });
         });
       }
 
+      if (!parsed.droppedPassengers) {
+        parsed.droppedPassengers = {};
+      }
+      if (parsed.gameOver === undefined) {
+        parsed.gameOver = null;
+      }
+      if (!parsed.statistics) {
+        parsed.statistics = createGameStatistics(
+          parsed.simulationTime,
+          parsed.money,
+        );
+      }
+      const { totals, hourly, daily } = parsed.statistics as GameStatistics;
+      for (const bucket of [totals, ...hourly, ...daily]) {
+        bucket.boardingsByLine ??= {};
+        bucket.loadByLine ??= {};
+        bucket.closingMoney ??= parsed.money;
+      }
+
+      relinkPassengers(parsed as GameState);
+
       return parsed as GameState;
     }
   } catch (e) {
@@ -212,6 +258,45 @@ export function loadGameState(): GameState | null {
   return null;
 }
 
+/**
+ * JSON turns the shared passenger objects in the global list, station queues
+ * and trains into separate copies. Point them all back at one object per ID.
+ */
+function relinkPassengers(state: GameState): void {
+  const byId = new Map<string, Passenger>();
+  for (const passenger of state.passengers) {
+    if (!passenger.pathLineIds) {
+      passenger.pathLineIds = [];
+    }
+    if (typeof passenger.patience !== "number") {
+      passenger.patience = PASSENGER_PATIENCE_MS;
+    }
+    if (typeof passenger.waitingSince !== "number") {
+      passenger.waitingSince = passenger.spawnTime;
+    }
+    if (typeof passenger.transfers !== "number") {
+      passenger.transfers = 0;
+    }
+    byId.set(passenger.id, passenger);
+  }
+
+  const relink = (list: Passenger[]): Passenger[] =>
+    list
+      .map((p) => byId.get(p.id))
+      .filter((p): p is Passenger => p !== undefined);
+
+  for (const station of state.stations) {
+    station.passengers = relink(station.passengers);
+  }
+  for (const line of state.lines) {
+    for (const train of line.trains) {
+      if (train.passengers) {
+        train.passengers = relink(train.passengers);
+      }
+    }
+  }
+}
+
 /**
  * Clear saved game from localStorage
  */
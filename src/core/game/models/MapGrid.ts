@@ -2,10 +2,19 @@
  * Map Grid data structures for MetroMap.io
  */
 
-import { MAP_WIDTH, MAP_HEIGHT } from "../config";
+import type { MAP_SIZE_PRESETS } from "../config";
 
-export type TileType = "LAND" | "WATER";
-export type MapType = "RIVER" | "ARCHIPELAGO";
+export type TileType = "LAND" | "WATER" | "MOUNTAIN"; // Mountains are impassable: no stations, tunnel-only track
+export type MapType = "RIVER" | "ARCHIPELAGO" | "COASTAL" | "LAKE" | "VALLEY";
+export type MapSize = keyof typeof MAP_SIZE_PRESETS;
+
+export const MAP_TYPES: readonly MapType[] = [
+  "RIVER",
+  "ARCHIPELAGO",
+  "COASTAL",
+  "LAKE",
+  "VALLEY",
+];
 
 export interface GridSquare {
   x: number;
@@ -16,11 +25,9 @@ export interface GridSquare {
 }
 
 export interface MapGrid {
-  width: number;
-  height: number;
+  width: number; // Squares across; stations sit on vertices 0..width
+  height: number; // Squares down; stations sit on vertices 0..height
   seed: number;
   mapType: MapType;
   squares: GridSquare[][];
 }
-
-export { MAP_WIDTH, MAP_HEIGHT };
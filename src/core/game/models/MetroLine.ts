@@ -3,6 +3,7 @@
  */
 
 import type { Train } from "./Train";
+import { generateEntityId, type RandomFn } from "./GameRandom";
 
 export type LineColor =
   | "red"
@@ -48,19 +49,241 @@ export const LINE_COLOR_HEX: Record<LineColor, number> = {
   grey: 0x95a5a6,
 };
 
+/**
+ * A spur leaving a line's trunk at a junction stop
+ * Shares the line's color; trains assigned to it run trunk -> junction -> branch
+ */
+export interface LineBranch {
+  id: string;
+  fromStationId: string; // Trunk stop where the branch diverges
+  stationIds: string[]; // Branch stops in order away from the junction
+}
+
+/**
+ * Which stops on its route a train calls at
+ * - ALL_STOPS: every stop
+ * - EXPRESS: only the line's express stops and the termini
+ * - SKIP_A / SKIP_B: express stops and termini, plus every other remaining
+ *   stop (A trains the first, third, ... and B trains the second, fourth, ...)
+ * Trains run through the stops they skip without stopping.
+ */
+export type StopPattern = "ALL_STOPS" | "EXPRESS" | "SKIP_A" | "SKIP_B";
+
+export const STOP_PATTERNS: StopPattern[] = [
+  "ALL_STOPS",
+  "EXPRESS",
+  "SKIP_A",
+  "SKIP_B",
+];
+
+export const STOP_PATTERN_NAMES: Record<StopPattern, string> = {
+  ALL_STOPS: "All stops",
+  EXPRESS: "Express",
+  SKIP_A: "Skip-stop A",
+  SKIP_B: "Skip-stop B",
+};
+
+/**
+ * One train service on a line: a route (the trunk, or trunk plus a branch)
+ * run with one stopping pattern
+ */
+export interface LineService {
+  id: string; // Routing key: "<lineId>", "<lineId>/<branchId>", plus "#<pattern>" unless all stops
+  lineId: string;
+  branchId?: string;
+  pattern: StopPattern;
+  stationIds: string[]; // Every stop the service calls at, in order
+  routeStationIds: string[]; // Every stop on the route, including those passed without stopping
+}
+
 export interface MetroLine {
   id: string;
   color: LineColor;
-  stationIds: string[];
+  stationIds: string[]; // Trunk stops
   isLoop: boolean;
+  branches: LineBranch[]; // Only linear lines can branch
+  expressStationIds: string[]; // Stops express and skip-stop trains always call at
   trains: Train[];
 }
 
 /**
  * Generate a unique line ID
  */
-export function generateLineId(): string {
-  return `line-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+export function generateLineId(random: RandomFn): string {
+  return generateEntityId("line", random);
+}
+
+/**
+ * Generate a unique branch ID
+ */
+export function generateBranchId(random: RandomFn): string {
+  return generateEntityId("branch", random);
+}
+
+/**
+ * Get the stops a service pattern calls at
+ * @param branchId The branch trains run to; the trunk when unset or unknown
+ */
+export function getServiceStationIds(
+  line: MetroLine,
+  branchId?: string,
+): string[] {
+  const branch = branchId
+    ? line.branches.find((b) => b.id === branchId)
+    : undefined;
+  if (!branch) return line.stationIds;
+
+  const junctionIdx = line.stationIds.indexOf(branch.fromStationId);
+  return [...line.stationIds.slice(0, junctionIdx + 1), ...branch.stationIds];
+}
+
+/**
+ * Get the stops a stopping pattern calls at on a route
+ * @param stationIds Every stop on the route, in order
+ */
+export function getCallingStationIds(
+  line: MetroLine,
+  stationIds: string[],
+  pattern: StopPattern = "ALL_STOPS",
+): string[] {
+  if (pattern === "ALL_STOPS") return stationIds;
+
+  // Minor stops are shared out alternately between A and B trains
+  let minorCount = 0;
+  return stationIds.filter((id, i) => {
+    const isTerminus = i === 0 || i === stationIds.length - 1;
+    if (isTerminus || line.expressStationIds.includes(id)) return true;
+    if (pattern === "EXPRESS") return false;
+    const isA = minorCount++ % 2 === 0;
+    return pattern === "SKIP_A" ? isA : !isA;
+  });
+}
+
+/**
+ * Get every service on a line that has trains assigned
+ * A line without any trains yet is treated as running its trunk, all stops
+ */
+export function getLineServices(line: MetroLine): LineService[] {
+  const routes = [undefined, ...line.branches.map((b) => b.id)];
+  const services: LineService[] = [];
+
+  for (const branchId of routes) {
+    for (const pattern of STOP_PATTERNS) {
+      const runs =
+        line.trains.length === 0
+          ? !branchId && pattern === "ALL_STOPS"
+          : line.trains.some(
+              (t) =>
+                getTrainBranch(line, t)?.id === branchId &&
+                getTrainPattern(t) === pattern,
+            );
+      if (!runs) continue;
+
+      const routeStationIds = getServiceStationIds(line, branchId);
+      const baseId = branchId ? `${line.id}/${branchId}` : line.id;
+      services.push({
+        id: pattern === "ALL_STOPS" ? baseId : `${baseId}#${pattern}`,
+        lineId: line.id,
+        ...(branchId ? { branchId } : {}),
+        pattern,
+        stationIds: getCallingStationIds(line, routeStationIds, pattern),
+        routeStationIds,
+      });
+    }
+  }
+
+  return services;
+}
+
+/**
+ * Get a train's stopping pattern
+ */
+export function getTrainPattern(train: Train): StopPattern {
+  return train.stopPattern ?? "ALL_STOPS";
+}
+
+/**
+ * Check whether a train calls at (rather than runs through) a stop
+ */
+export function trainCallsAt(
+  line: MetroLine,
+  train: Train,
+  stationId: string,
+): boolean {
+  return getCallingStationIds(
+    line,
+    getTrainStationIds(line, train),
+    getTrainPattern(train),
+  ).includes(stationId);
+}
+
+/**
+ * Get the index of the next stop a train will call at: its target, or the
+ * first stop beyond it that it does not run through
+ * Indices refer to getTrainStationIds.
+ */
+export function getNextCallingStationIdx(
+  line: MetroLine,
+  train: Train,
+): number {
+  const stationIds = getTrainStationIds(line, train);
+  const calling = new Set(
+    getCallingStationIds(line, stationIds, getTrainPattern(train)),
+  );
+  // Loops wrap round (like TrainMovement's setNextTarget); linear routes
+  // reverse at termini, which every pattern calls at
+  const stopCount = stationIds.length;
+
+  let idx = train.targetStationIdx;
+  for (let steps = 0; steps < stopCount; steps++) {
+    if (calling.has(stationIds[idx])) return idx;
+    idx = line.isLoop
+      ? (idx + train.direction + stopCount) % stopCount
+      : Math.min(Math.max(idx + train.direction, 0), stopCount - 1);
+  }
+  return train.targetStationIdx;
+}
+
+/**
+ * Get the branch a train runs to, if it exists on the line
+ */
+export function getTrainBranch(
+  line: MetroLine,
+  train: Train,
+): LineBranch | undefined {
+  return train.branchId
+    ? line.branches.find((b) => b.id === train.branchId)
+    : undefined;
+}
+
+/**
+ * Get the stops a train calls at (its service pattern)
+ * Train indices such as currentStationIdx refer to this list
+ */
+export function getTrainStationIds(line: MetroLine, train: Train): string[] {
+  return getServiceStationIds(line, train.branchId);
+}
+
+/**
+ * Get every stop on a line, trunk and branches, without duplicates
+ */
+export function getLineStationIds(line: MetroLine): string[] {
+  const stationIds = new Set(line.stationIds);
+  for (const branch of line.branches) {
+    branch.stationIds.forEach((id) => stationIds.add(id));
+  }
+  return [...stationIds];
+}
+
+/**
+ * Get the drawn track of a line as runs of consecutive stops:
+ * the trunk, then each branch starting at its junction
+ */
+export function getLineTrackPaths(line: MetroLine): string[][] {
+  return [
+    line.stationIds,
+    ...line.branches.map((b) => [b.fromStationId, ...b.stationIds]),
+  ];
 }
 
 /**
@@ -98,13 +321,16 @@ export function canAddStationToLine(
 export function createLine(
   color: LineColor,
   stationIds: string[],
+  random: RandomFn,
   isLoop: boolean = false,
 ): MetroLine {
   return {
-    id: generateLineId(),
+    id: generateLineId(random),
     color,
     stationIds,
     isLoop,
+    branches: [],
+    expressStationIds: [],
     trains: [],
   };
 }
@@ -2,12 +2,28 @@
  * Passenger data model for MetroMap.io
  */
 
+import { generateEntityId, type RandomFn } from "./GameRandom";
+import { PASSENGER_PATIENCE_MS, PASSENGER_PATIENCE_VARIANCE } from "../config";
+
+/**
+ * Why a passenger left the game without completing their journey
+ */
+export type PassengerDropReason =
+  | "NO_ROUTE" // Network changed and destination is no longer reachable
+  | "STATION_REMOVED" // Current or destination station was removed
+  | "TRAIN_REMOVED" // The train they were riding was removed
+  | "ABANDONED"; // Waited longer than their patience allows
+
 export interface Passenger {
   id: string;
   sourceStationId: string;
   destinationStationId: string;
   spawnTime: number;
-  path: string[];
+  patience: number; // Game ms after spawnTime the passenger will wait at a station before giving up
+  waitingSince: number; // Game time the passenger started waiting at their current station
+  transfers: number; // Line changes made so far
+  path: string[]; // Boarding, transfer and destination stations
+  pathLineIds: string[]; // pathLineIds[i] is the line ridden from path[i] to path[i + 1]
   nextWaypointIndex: number;
   currentStationId?: string;
   currentTrainId?: string;
@@ -20,14 +36,33 @@ export function createPassenger(
   sourceId: string,
   destinationId: string,
   spawnTime: number,
+  random: RandomFn,
 ): Passenger {
   return {
-    id: `p-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+    id: generateEntityId("p", random),
     sourceStationId: sourceId,
     destinationStationId: destinationId,
     spawnTime,
+    patience:
+      PASSENGER_PATIENCE_MS *
+      (1 + PASSENGER_PATIENCE_VARIANCE * (random() * 2 - 1)),
+    waitingSince: spawnTime,
+    transfers: 0,
     path: [],
+    pathLineIds: [],
     nextWaypointIndex: 0,
     currentStationId: sourceId,
   };
 }
+
+/**
+ * Check if a passenger has run out of patience
+ * Patience is measured from when they started waiting at their current
+ * station, so time spent on board does not count against a transfer.
+ */
+export function hasPassengerGivenUp(
+  passenger: Passenger,
+  currentTime: number,
+): boolean {
+  return currentTime - passenger.waitingSince > passenger.patience;
+}
@@ -3,13 +3,31 @@
  */
 
 import type { Passenger } from "./Passenger";
+import { DWELL_SMOOTHING, TRAIN_MIN_DWELL_SECONDS } from "../config";
 
 export interface Station {
   id: string;
   vertexX: number;
   vertexY: number;
   passengers: Passenger[];
-  label: string;
+  label: string; // Display name: A, B, C... until the player renames it
+  overcrowdedSince?: number; // Game time the waiting crowd first exceeded capacity
+  recentDwell?: number; // Smoothed seconds trains have stopped here lately; unset until the first stop
+}
+
+/**
+ * Get how long a train can expect to stop at a station, from recent stops there
+ */
+export function getExpectedDwell(station: Station | undefined): number {
+  return station?.recentDwell ?? TRAIN_MIN_DWELL_SECONDS;
+}
+
+/**
+ * Fold a train's stop into the station's expected dwell
+ */
+export function recordDwell(station: Station, seconds: number): void {
+  const expected = getExpectedDwell(station);
+  station.recentDwell = expected + (seconds - expected) * DWELL_SMOOTHING;
 }
 
 /**
@@ -29,37 +47,37 @@ export function generateStationLabel(index: number): string {
 }
 
 /**
- * Generate a unique station ID from vertex coordinates
- * Format: "xxYY" where xx and yy are zero-padded 2-digit numbers
+ * Get the first generated label that no station is using
+ * Names compare case-insensitively, as when renaming a station.
  */
-export function generateStationId(vertexX: number, vertexY: number): string {
-  const x = vertexX.toString().padStart(2, "0");
-  const y = vertexY.toString().padStart(2, "0");
-  return `${x}${y}`;
+export function getNextStationLabel(stations: readonly Station[]): string {
+  const used = new Set(stations.map((s) => s.label.toLowerCase()));
+  let index = 0;
+  while (used.has(generateStationLabel(index).toLowerCase())) {
+    index++;
+  }
+  return generateStationLabel(index);
 }
 
 /**
- * Parse station ID to get vertex coordinates
+ * Generate a station ID from a sequence number
+ * IDs are not tied to the station's position, so they survive moves
  */
-export function parseStationId(id: string): {
-  vertexX: number;
-  vertexY: number;
-} {
-  const x = parseInt(id.substring(0, 2), 10);
-  const y = parseInt(id.substring(2, 4), 10);
-  return { vertexX: x, vertexY: y };
+export function generateStationId(sequence: number): string {
+  return `S${sequence}`;
 }
 
 /**
  * Create a new station
  */
 export function createStation(
+  id: string,
   vertexX: number,
   vertexY: number,
   label: string = "",
 ): Station {
   return {
-    id: generateStationId(vertexX, vertexY),
+    id,
     vertexX,
     vertexY,
     passengers: [],
@@ -0,0 +1,142 @@
+/**
+ * Statistics data model for MetroMap.io
+ * Journey and cost figures aggregated per time bucket
+ */
+
+/**
+ * Waiting time recorded at one station
+ */
+export interface StationWaitStats {
+  totalWaitTime: number; // Game ms
+  boardings: number;
+}
+
+/**
+ * Passenger load carried by the trains of one line
+ */
+export interface LineLoadStats {
+  passengerDistance: number; // Squares travelled x passengers on board
+  capacityDistance: number; // Squares travelled x train capacity
+}
+
+/**
+ * All figures recorded over one span of game time
+ */
+export interface StatisticsBucket {
+  startTime: number; // Game time the bucket starts
+  tripsCompleted: number;
+  totalTripTime: number; // Game ms from spawn to arrival, summed over completed trips
+  totalTransfers: number; // Summed over completed trips
+  tripsAbandoned: number;
+  boardings: number;
+  totalWaitTime: number; // Game ms spent waiting on platforms, summed over boardings
+  waitByStation: Record<string, StationWaitStats>;
+  boardingsByLine: Record<string, number>;
+  loadByLine: Record<string, LineLoadStats>;
+  revenue: number;
+  runningCost: number;
+  runningCostByLine: Record<string, number>;
+  closingMoney: number; // Money at the last recorded event in the bucket
+}
+
+/**
+ * Rolling statistics stored in the game state
+ */
+export interface GameStatistics {
+  totals: StatisticsBucket; // Since the start of the game
+  hourly: StatisticsBucket[]; // Oldest first
+  daily: StatisticsBucket[]; // Oldest first
+}
+
+/**
+ * Create an empty statistics bucket
+ */
+export function createStatisticsBucket(
+  startTime: number,
+  money: number,
+): StatisticsBucket {
+  return {
+    startTime,
+    tripsCompleted: 0,
+    totalTripTime: 0,
+    totalTransfers: 0,
+    tripsAbandoned: 0,
+    boardings: 0,
+    totalWaitTime: 0,
+    waitByStation: {},
+    boardingsByLine: {},
+    loadByLine: {},
+    revenue: 0,
+    runningCost: 0,
+    runningCostByLine: {},
+    closingMoney: money,
+  };
+}
+
+/**
+ * Create empty game statistics
+ */
+export function createGameStatistics(
+  startTime: number,
+  money: number,
+): GameStatistics {
+  return {
+    totals: createStatisticsBucket(startTime, money),
+    hourly: [],
+    daily: [],
+  };
+}
+
+/**
+ * Combine several buckets into one covering their whole span
+ */
+export function mergeStatisticsBuckets(
+  buckets: readonly StatisticsBucket[],
+): StatisticsBucket {
+  const merged = createStatisticsBucket(
+    buckets[0]?.startTime ?? 0,
+    buckets[buckets.length - 1]?.closingMoney ?? 0,
+  );
+
+  const addTo = (
+    target: Record<string, number>,
+    source: Record<string, number>,
+  ) => {
+    for (const [key, value] of Object.entries(source)) {
+      target[key] = (target[key] ?? 0) + value;
+    }
+  };
+
+  for (const bucket of buckets) {
+    merged.tripsCompleted += bucket.tripsCompleted;
+    merged.totalTripTime += bucket.totalTripTime;
+    merged.totalTransfers += bucket.totalTransfers;
+    merged.tripsAbandoned += bucket.tripsAbandoned;
+    merged.boardings += bucket.boardings;
+    merged.totalWaitTime += bucket.totalWaitTime;
+    merged.revenue += bucket.revenue;
+    merged.runningCost += bucket.runningCost;
+    addTo(merged.boardingsByLine, bucket.boardingsByLine);
+    addTo(merged.runningCostByLine, bucket.runningCostByLine);
+
+    for (const [stationId, wait] of Object.entries(bucket.waitByStation)) {
+      const target = (merged.waitByStation[stationId] ??= {
+        totalWaitTime: 0,
+        boardings: 0,
+      });
+      target.totalWaitTime += wait.totalWaitTime;
+      target.boardings += wait.boardings;
+    }
+
+    for (const [lineId, load] of Object.entries(bucket.loadByLine)) {
+      const target = (merged.loadByLine[lineId] ??= {
+        passengerDistance: 0,
+        capacityDistance: 0,
+      });
+      target.passengerDistance += load.passengerDistance;
+      target.capacityDistance += load.capacityDistance;
+    }
+  }
+
+  return merged;
+}
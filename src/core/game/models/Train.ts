@@ -3,16 +3,35 @@
  */
 
 import type { Passenger } from "./Passenger";
+import type { StopPattern } from "./MetroLine";
 import type { LineSegment } from "../pathfinding/LinePath";
-import { TRAIN_MAX_CAPACITY } from "../config";
+import {
+  DEFAULT_TRAIN_TYPE,
+  TRAIN_DEFAULT_SPEED,
+  TRAIN_TYPES,
+} from "../config";
+import { generateEntityId, type RandomFn } from "./GameRandom";
 
 export type TrainState = "MOVING" | "STOPPED";
 
+export type TrainTypeId = keyof typeof TRAIN_TYPES;
+
+/**
+ * A kind of rolling stock from the TRAIN_TYPES catalog
+ */
+export type TrainType = (typeof TRAIN_TYPES)[TrainTypeId];
+
+export const TRAIN_TYPE_IDS = Object.keys(TRAIN_TYPES) as TrainTypeId[];
+
 export interface Train {
   id: string;
   lineId: string;
+  trainType: TrainTypeId;
+  branchId?: string; // Branch this train runs to; trunk-only when unset
+  stopPattern?: StopPattern; // Stops the train calls at; all stops when unset
   state: TrainState;
-  dwellRemaining: number;
+  dwellRemaining: number; // Stop time left, as squares at the reference speed
+  dwellDuration: number; // Boarding and alighting time at the current stop, same units; headway holds come on top
   currentStationIdx: number;
   targetStationIdx: number;
   progress: number;
@@ -20,7 +39,9 @@ export interface Train {
   currentSegment: LineSegment | null;
   totalLength: number;
   passengers: Passenger[];
-  capacity: number;
+  capacity: number; // Copied from the train type when built
+  signalBlock?: string; // Track block the train holds; kept while stopped at a platform
+  atSignal?: boolean; // Waiting for the block ahead to clear
 }
 
 /**
@@ -28,13 +49,17 @@ export interface Train {
  */
 export function createTrain(
   lineId: string,
+  random: RandomFn,
   startStationIdx: number = 0,
+  trainType: TrainTypeId = DEFAULT_TRAIN_TYPE,
 ): Train {
   return {
-    id: `train-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+    id: generateEntityId("train", random),
     lineId,
+    trainType,
     state: "MOVING",
     dwellRemaining: 0,
+    dwellDuration: 0,
     currentStationIdx: startStationIdx,
     targetStationIdx: startStationIdx + 1,
     progress: 0,
@@ -42,6 +67,30 @@ export function createTrain(
     currentSegment: null,
     totalLength: 0,
     passengers: [],
-    capacity: TRAIN_MAX_CAPACITY,
+    capacity: TRAIN_TYPES[trainType].capacity,
   };
 }
+
+/**
+ * Get the catalog entry for a train's type
+ */
+export function getTrainType(train: Train): TrainType {
+  return TRAIN_TYPES[train.trainType] ?? TRAIN_TYPES[DEFAULT_TRAIN_TYPE];
+}
+
+/**
+ * Get the speed a service runs at: its slowest train's, since faster ones
+ * catch up and queue behind it (the reference speed when it has no trains)
+ */
+export function getServiceSpeed(trains: Train[]): number {
+  return trains.length > 0
+    ? Math.min(...trains.map((t) => getTrainType(t).speed))
+    : TRAIN_DEFAULT_SPEED;
+}
+
+/**
+ * Check whether a value names a train type in the catalog
+ */
+export function isTrainTypeId(value: unknown): value is TrainTypeId {
+  return TRAIN_TYPE_IDS.includes(value as TrainTypeId);
+}
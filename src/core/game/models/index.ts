@@ -8,3 +8,5 @@ export * from "./Passenger";
 export * from "./MetroLine";
 export * from "./Train";
 export * from "./GameState";
+export * from "./GameRandom";
+export * from "./Statistics";
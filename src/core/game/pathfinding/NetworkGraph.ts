@@ -0,0 +1,191 @@
+/**
+ * Network Graph for MetroMap.io
+ * Persistent, cached view of the metro network for fast simulation queries.
+ * Built lazily from GameState and rebuilt only after invalidate() is called,
+ * i.e. when a station, line or train count changes. Route costs are also
+ * refreshed on a fixed game-time cadence to follow stations' recent dwell.
+ */
+
+import type { GameState } from "../models/GameState";
+import type { MetroLine } from "../models/MetroLine";
+import { getLineStationIds } from "../models/MetroLine";
+import type { Station } from "../models/Station";
+import {
+  buildRoutingNetwork,
+  searchItinerary,
+  type GraphEdge,
+  type Itinerary,
+  type RoutingNetwork,
+} from "./StationGraph";
+
+interface NetworkCache {
+  routing: RoutingNetwork;
+  linesById: Map<string, MetroLine>;
+  linesAtStation: Map<string, MetroLine[]>;
+  componentOf: Map<string, number>; // Connected component index per station
+  itineraries: Map<string, Itinerary | null>;
+}
+
+export class NetworkGraph {
+  private cache: NetworkCache | null = null;
+  private revision: number = 0;
+
+  constructor(private state: GameState) {}
+
+  /**
+   * Mark the cached network as stale; it is rebuilt on the next query
+   */
+  invalidate(): void {
+    this.cache = null;
+    this.revision++;
+  }
+
+  /**
+   * Re-cost routes with stations' current dwell times and drop cached
+   * itineraries; the network's shape is unchanged, so the revision stays
+   */
+  refreshRouting(): void {
+    if (!this.cache) return;
+    this.cache.routing = buildRoutingNetwork(
+      this.state.stations,
+      this.state.lines,
+    );
+    this.cache.itineraries.clear();
+  }
+
+  /**
+   * Get a counter that increases every time the network is invalidated
+   * Consumers can compare it to know when their own derived data is stale
+   */
+  getRevision(): number {
+    return this.revision;
+  }
+
+  /**
+   * Get a station by ID
+   */
+  getStation(stationId: string): Station | undefined {
+    return this.getCache().routing.stations.get(stationId);
+  }
+
+  /**
+   * Get a line by ID
+   */
+  getLine(lineId: string): MetroLine | undefined {
+    return this.getCache().linesById.get(lineId);
+  }
+
+  /**
+   * Get the direct connections (one hop on any line) from a station
+   */
+  getNeighbours(stationId: string): readonly GraphEdge[] {
+    return this.getCache().routing.graph.get(stationId)?.connections ?? [];
+  }
+
+  /**
+   * Get all lines that call at a station
+   */
+  getLinesAtStation(stationId: string): readonly MetroLine[] {
+    return this.getCache().linesAtStation.get(stationId) ?? [];
+  }
+
+  /**
+   * Get a line that calls at both stations, if any
+   */
+  getLineConnecting(
+    fromStationId: string,
+    toStationId: string,
+  ): MetroLine | undefined {
+    return this.getLinesAtStation(fromStationId).find((line) =>
+      getLineStationIds(line).includes(toStationId),
+    );
+  }
+
+  /**
+   * Check whether a station can be reached from another on the network
+   */
+  isReachable(fromStationId: string, toStationId: string): boolean {
+    const { componentOf } = this.getCache();
+    const from = componentOf.get(fromStationId);
+    return from !== undefined && from === componentOf.get(toStationId);
+  }
+
+  /**
+   * Get the cheapest itinerary between two stations (cached until invalidated)
+   * The returned itinerary is shared - callers must not mutate it
+   */
+  findItinerary(startId: string, endId: string): Itinerary | null {
+    const cache = this.getCache();
+    if (!this.isReachable(startId, endId)) return null;
+
+    const key = `${startId}>${endId}`;
+    if (!cache.itineraries.has(key)) {
+      cache.itineraries.set(
+        key,
+        searchItinerary(cache.routing, startId, endId),
+      );
+    }
+    return cache.itineraries.get(key)!;
+  }
+
+  /**
+   * Get the cache, rebuilding it if it was invalidated
+   */
+  private getCache(): NetworkCache {
+    if (!this.cache) {
+      this.cache = this.build();
+    }
+    return this.cache;
+  }
+
+  /**
+   * Build all cached lookups from the current game state
+   */
+  private build(): NetworkCache {
+    const { stations, lines } = this.state;
+    const routing = buildRoutingNetwork(stations, lines);
+
+    const linesById = new Map<string, MetroLine>();
+    const linesAtStation = new Map<string, MetroLine[]>();
+    for (const line of lines) {
+      linesById.set(line.id, line);
+      for (const stationId of getLineStationIds(line)) {
+        let stationLines = linesAtStation.get(stationId);
+        if (!stationLines) {
+          stationLines = [];
+          linesAtStation.set(stationId, stationLines);
+        }
+        stationLines.push(line);
+      }
+    }
+
+    // Label connected components so reachability is a constant-time lookup
+    const componentOf = new Map<string, number>();
+    let component = 0;
+    for (const station of stations) {
+      if (componentOf.has(station.id)) continue;
+
+      const queue = [station.id];
+      componentOf.set(station.id, component);
+      let head = 0;
+      while (head < queue.length) {
+        const current = queue[head++];
+        for (const edge of routing.graph.get(current)?.connections ?? []) {
+          if (!componentOf.has(edge.targetStationId)) {
+            componentOf.set(edge.targetStationId, component);
+            queue.push(edge.targetStationId);
+          }
+        }
+      }
+      component++;
+    }
+
+    return {
+      routing,
+      linesById,
+      linesAtStation,
+      componentOf,
+      itineraries: new Map(),
+    };
+  }
+}
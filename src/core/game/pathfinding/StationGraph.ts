@@ -1,122 +1,519 @@
 /**
  * Station Graph for Pathfinding
- * Models the metro network as a graph to find routes between stations.
+ * Models the metro network as a weighted graph to find routes between stations.
+ *
+ * Costs are expressed in simulated seconds at 1x speed (the same clock trains use):
+ * - Riding: segment length / service speed, plus the expected dwell at every
+ *   intermediate stop (longer where crowds have recently slowed trains down)
+ * - Boarding a service: expected wait (half the service's headway)
+ * - Changing services: a configurable transfer penalty on top of the new wait
+ *
+ * A service is a route trains run on a line (the trunk, or the trunk up to a
+ * junction followed by a branch) with one stopping pattern. Express and
+ * skip-stop services only connect the stops they call at.
  */
 
 import type { MetroLine } from "../models/MetroLine";
+import {
+  getLineServices,
+  getTrainBranch,
+  getTrainPattern,
+  type LineService,
+} from "../models/MetroLine";
 import type { Station } from "../models/Station";
+import { getExpectedDwell } from "../models/Station";
+import { getServiceSpeed, type Train } from "../models/Train";
+import {
+  TRAIN_DEFAULT_SPEED,
+  TRAIN_TYPES,
+  ROUTING_TRANSFER_PENALTY_SECONDS,
+  ROUTING_WAIT_WEIGHT,
+} from "../config";
 
-interface GraphNode {
+export interface GraphNode {
   stationId: string;
   connections: GraphEdge[];
 }
 
-interface GraphEdge {
+export interface GraphEdge {
   targetStationId: string;
   lineId: string;
+  serviceId: string; // Service (route and stopping pattern) the edge is ridden on
+  travelTime: number;
 }
 
 /**
- * Find a route between two stations using BFS
- * Returns a list of station IDs representing the path (waypoints)
+ * A continuous ride on a single service of a line
  */
-export function findRoute(
+export interface RouteLeg {
+  lineId: string;
+  fromStationId: string;
+  toStationId: string;
+  stationIds: string[]; // Every stop on the leg, including both ends
+}
+
+/**
+ * A complete journey between two stations
+ */
+export interface Itinerary {
+  stationIds: string[]; // Every station visited, in order
+  legs: RouteLeg[];
+  cost: number; // Estimated journey time in seconds (1x)
+}
+
+/**
+ * Prebuilt network data needed to search for itineraries
+ */
+export interface RoutingNetwork {
+  stations: Map<string, Station>;
+  graph: Map<string, GraphNode>;
+  waitTimes: Map<string, number>; // Expected wait per service ID, in seconds
+}
+
+/**
+ * Tunable routing weights
+ */
+export interface RoutingOptions {
+  transferPenalty: number; // Seconds added when changing services
+  waitWeight: number; // Multiplier on expected wait when boarding a service
+}
+
+export const DEFAULT_ROUTING_OPTIONS: RoutingOptions = {
+  transferPenalty: ROUTING_TRANSFER_PENALTY_SECONDS,
+  waitWeight: ROUTING_WAIT_WEIGHT,
+};
+
+// Fastest any train runs, so the search heuristic never overestimates
+const MAX_TRAIN_SPEED = Math.max(
+  ...Object.values(TRAIN_TYPES).map((type) => type.speed),
+);
+
+/**
+ * Search state: a station, reached while riding a service ("" = not boarded yet)
+ */
+interface SearchState {
+  key: string;
+  stationId: string;
+  lineId: string;
+  serviceId: string;
+  cost: number;
+  estimate: number;
+}
+
+/**
+ * Find the cheapest itinerary between two stations using A*
+ * Builds the network from scratch - use NetworkGraph for repeated queries
+ * Returns null if the destination cannot be reached
+ */
+export function findItinerary(
   startId: string,
   endId: string,
   stations: Station[],
   lines: MetroLine[],
-): string[] | null {
-  if (startId === endId) return [];
+  options: RoutingOptions = DEFAULT_ROUTING_OPTIONS,
+): Itinerary | null {
+  return searchItinerary(
+    buildRoutingNetwork(stations, lines),
+    startId,
+    endId,
+    options,
+  );
+}
+
+/**
+ * Build the graph and service wait times used by searchItinerary
+ */
+export function buildRoutingNetwork(
+  stations: Station[],
+  lines: MetroLine[],
+): RoutingNetwork {
+  const stationMap = new Map(stations.map((s) => [s.id, s]));
+  return {
+    stations: stationMap,
+    graph: buildGraph(stations, lines),
+    waitTimes: calculateServiceWaitTimes(lines, stationMap),
+  };
+}
 
-  // Build the graph
-  const graph = buildGraph(stations, lines);
+/**
+ * Find the cheapest itinerary on a prebuilt network using A*
+ * Returns null if the destination cannot be reached
+ */
+export function searchItinerary(
+  network: RoutingNetwork,
+  startId: string,
+  endId: string,
+  options: RoutingOptions = DEFAULT_ROUTING_OPTIONS,
+): Itinerary | null {
+  if (startId === endId) return null;
+
+  const { stations: stationMap, graph, waitTimes } = network;
+  const endStation = stationMap.get(endId);
+  if (!stationMap.has(startId) || !endStation) return null;
 
-  // BFS
-  const queue: { stationId: string; path: string[] }[] = [];
-  const visited = new Set<string>();
+  // Admissible heuristic: ride straight to the destination without stopping
+  const heuristic = (stationId: string): number => {
+    const station = stationMap.get(stationId);
+    if (!station) return 0;
+    return octilinearDistance(station, endStation) / MAX_TRAIN_SPEED;
+  };
 
-  queue.push({ stationId: startId, path: [startId] });
-  visited.add(startId);
+  const startKey = stateKey(startId, "");
+  const bestCost = new Map<string, number>([[startKey, 0]]);
+  const previous = new Map<string, SearchState>();
+  const settled = new Set<string>();
 
-  while (queue.length > 0) {
-    const current = queue.shift()!;
-    const { stationId, path } = current;
+  const open = new MinHeap<SearchState>((a, b) => a.estimate - b.estimate);
+  open.push({
+    key: startKey,
+    stationId: startId,
+    lineId: "",
+    serviceId: "",
+    cost: 0,
+    estimate: heuristic(startId),
+  });
 
-    if (stationId === endId) {
-      return path;
+  while (open.size() > 0) {
+    const current = open.pop()!;
+    if (settled.has(current.key)) continue;
+    settled.add(current.key);
+
+    if (current.stationId === endId) {
+      return buildItinerary(current, previous);
     }
 
-    const node = graph.get(stationId);
+    const node = graph.get(current.stationId);
     if (!node) continue;
 
     for (const edge of node.connections) {
-      if (!visited.has(edge.targetStationId)) {
-        visited.add(edge.targetStationId);
-        queue.push({
-          stationId: edge.targetStationId,
-          path: [...path, edge.targetStationId],
-        });
+      let edgeCost = edge.travelTime;
+
+      if (current.serviceId === edge.serviceId) {
+        // Staying on board through this stop
+        edgeCost += getExpectedDwell(stationMap.get(current.stationId));
+      } else {
+        // Boarding (or changing to) a service
+        edgeCost += (waitTimes.get(edge.serviceId) ?? 0) * options.waitWeight;
+        if (current.serviceId !== "") {
+          edgeCost += options.transferPenalty;
+        }
       }
+
+      const nextKey = stateKey(edge.targetStationId, edge.serviceId);
+      const nextCost = current.cost + edgeCost;
+      if (nextCost >= (bestCost.get(nextKey) ?? Infinity)) continue;
+
+      bestCost.set(nextKey, nextCost);
+      const next: SearchState = {
+        key: nextKey,
+        stationId: edge.targetStationId,
+        lineId: edge.lineId,
+        serviceId: edge.serviceId,
+        cost: nextCost,
+        estimate: nextCost + heuristic(edge.targetStationId),
+      };
+      previous.set(nextKey, current);
+      open.push(next);
     }
   }
 
   return null; // No path found
 }
 
+/**
+ * Find a route between two stations
+ * Returns a list of station IDs representing the path (every station visited)
+ */
+export function findRoute(
+  startId: string,
+  endId: string,
+  stations: Station[],
+  lines: MetroLine[],
+): string[] | null {
+  if (startId === endId) return [];
+
+  const itinerary = findItinerary(startId, endId, stations, lines);
+  return itinerary ? itinerary.stationIds : null;
+}
+
+/**
+ * Get the stations where a passenger boards, transfers or alights
+ * e.g. [origin, transfer, destination] for a two-leg itinerary
+ */
+export function getItineraryWaypoints(itinerary: Itinerary): string[] {
+  if (itinerary.legs.length === 0) return [];
+  return [
+    itinerary.legs[0].fromStationId,
+    ...itinerary.legs.map((leg) => leg.toStationId),
+  ];
+}
+
+/**
+ * Walk back through the search to assemble the legs of a journey
+ */
+function buildItinerary(
+  goal: SearchState,
+  previous: Map<string, SearchState>,
+): Itinerary {
+  // Collect hops from destination back to origin
+  const hops: { stationId: string; lineId: string; serviceId: string }[] = [];
+  let state: SearchState | undefined = goal;
+  while (state) {
+    hops.unshift({
+      stationId: state.stationId,
+      lineId: state.lineId,
+      serviceId: state.serviceId,
+    });
+    state = previous.get(state.key);
+  }
+
+  const legs: RouteLeg[] = [];
+  for (let i = 1; i < hops.length; i++) {
+    const { stationId, lineId, serviceId } = hops[i];
+    const currentLeg = legs[legs.length - 1];
+
+    if (currentLeg && hops[i - 1].serviceId === serviceId) {
+      currentLeg.stationIds.push(stationId);
+      currentLeg.toStationId = stationId;
+    } else {
+      legs.push({
+        lineId,
+        fromStationId: hops[i - 1].stationId,
+        toStationId: stationId,
+        stationIds: [hops[i - 1].stationId, stationId],
+      });
+    }
+  }
+
+  return {
+    stationIds: hops.map((h) => h.stationId),
+    legs,
+    cost: goal.cost,
+  };
+}
+
+/**
+ * Estimate the average wait for a train on each service (half the headway)
+ * Headway = time for one train to complete a full cycle / number of trains
+ */
+function calculateServiceWaitTimes(
+  lines: MetroLine[],
+  stationMap: Map<string, Station>,
+): Map<string, number> {
+  const waitTimes = new Map<string, number>();
+
+  for (const line of lines) {
+    for (const service of getLineServices(line)) {
+      const distances = getRouteDistances(service, stationMap);
+      const serviceTrains = getServiceTrains(line, service);
+      const rideTime =
+        distances[distances.length - 1] / getServiceSpeed(serviceTrains) +
+        service.stationIds
+          .slice(1)
+          .reduce((sum, id) => sum + getExpectedDwell(stationMap.get(id)), 0);
+
+      // Linear services run out and back; loops complete one lap
+      const cycleTime = line.isLoop ? rideTime : rideTime * 2;
+      const trainCount = Math.max(1, serviceTrains.length);
+      waitTimes.set(service.id, cycleTime / trainCount / 2);
+    }
+  }
+
+  return waitTimes;
+}
+
+/**
+ * Get the trains running a service
+ */
+function getServiceTrains(line: MetroLine, service: LineService): Train[] {
+  return (line.trains ?? []).filter(
+    (t) =>
+      getTrainBranch(line, t)?.id === service.branchId &&
+      getTrainPattern(t) === service.pattern,
+  );
+}
+
+/**
+ * Get how far along a service's route each of its stops is, in grid squares
+ * @returns Distances from the first stop, one per entry in routeStationIds
+ */
+function getRouteDistances(
+  service: LineService,
+  stationMap: Map<string, Station>,
+): number[] {
+  const distances = [0];
+  for (let i = 1; i < service.routeStationIds.length; i++) {
+    const from = stationMap.get(service.routeStationIds[i - 1]);
+    const to = stationMap.get(service.routeStationIds[i]);
+    distances.push(
+      distances[i - 1] + (from && to ? octilinearDistance(from, to) : 0),
+    );
+  }
+  return distances;
+}
+
+/**
+ * Length of the Harry Beck style path between two stations in grid squares
+ * (diagonal run plus straight run, see calculateSegmentPath)
+ */
+export function octilinearDistance(from: Station, to: Station): number {
+  const absDx = Math.abs(to.vertexX - from.vertexX);
+  const absDy = Math.abs(to.vertexY - from.vertexY);
+  const diagonal = Math.min(absDx, absDy);
+  const straight = Math.max(absDx, absDy) - diagonal;
+  return diagonal * Math.SQRT2 + straight;
+}
+
+function stateKey(stationId: string, serviceId: string): string {
+  return `${stationId}|${serviceId}`;
+}
+
 /**
  * Build an adjacency list representation of the metro network
  */
-function buildGraph(
+export function buildGraph(
   stations: Station[],
   lines: MetroLine[],
 ): Map<string, GraphNode> {
   const graph = new Map<string, GraphNode>();
+  const stationMap = new Map(stations.map((s) => [s.id, s]));
 
   // Initialize nodes
   for (const station of stations) {
     graph.set(station.id, { stationId: station.id, connections: [] });
   }
 
-  // Add edges from lines
-  for (const line of lines) {
-    if (line.stationIds.length < 2) continue;
+  const connect = (
+    fromId: string,
+    toId: string,
+    lineId: string,
+    serviceId: string,
+    distance?: number, // Track length between the stops; straight between them when unset
+    speed: number = TRAIN_DEFAULT_SPEED,
+  ) => {
+    const fromNode = graph.get(fromId);
+    const toNode = graph.get(toId);
+    const fromStation = stationMap.get(fromId);
+    const toStation = stationMap.get(toId);
+    if (!fromNode || !toNode || !fromStation || !toStation) return;
+    if (fromId === toId) return;
 
-    for (let i = 0; i < line.stationIds.length - 1; i++) {
-      const fromId = line.stationIds[i];
-      const toId = line.stationIds[i + 1];
+    const travelTime =
+      (distance ?? octilinearDistance(fromStation, toStation)) / speed;
 
-      const fromNode = graph.get(fromId);
-      const toNode = graph.get(toId);
+    // Add bidirectional connection
+    // Note: In a real directed graph (one-way lines), this would be different.
+    // Assuming bidirectional lines for now.
+    fromNode.connections.push({
+      targetStationId: toId,
+      lineId,
+      serviceId,
+      travelTime,
+    });
+    toNode.connections.push({
+      targetStationId: fromId,
+      lineId,
+      serviceId,
+      travelTime,
+    });
+  };
 
-      if (fromNode && toNode) {
-        // Add bidirectional connection
-        // Note: In a real directed graph (one-way lines), this would be different.
-        // Assuming bidirectional lines for now.
-        fromNode.connections.push({ targetStationId: toId, lineId: line.id });
-        toNode.connections.push({ targetStationId: fromId, lineId: line.id });
+  // Add edges from each service on each line; stops shared by a trunk and
+  // its branch services get one edge per service
+  for (const line of lines) {
+    if (line.stationIds.length < 2) continue;
+
+    for (const service of getLineServices(line)) {
+      // Services that skip stops ride through them between calls
+      const distances = getRouteDistances(service, stationMap);
+      const speed = getServiceSpeed(getServiceTrains(line, service));
+      let from = 0;
+      for (let to = 1; to < service.routeStationIds.length; to++) {
+        const toId = service.routeStationIds[to];
+        if (!service.stationIds.includes(toId)) continue;
+        connect(
+          service.routeStationIds[from],
+          toId,
+          line.id,
+          service.id,
+          distances[to] - distances[from],
+          speed,
+        );
+        from = to;
       }
     }
 
     // Handle Loop closing (last -> first)
     if (line.isLoop && line.stationIds.length > 2) {
-      const lastId = line.stationIds[line.stationIds.length - 1];
-      const firstId = line.stationIds[0];
-
-      const lastNode = graph.get(lastId);
-      const firstNode = graph.get(firstId);
-
-      if (lastNode && firstNode) {
-        lastNode.connections.push({
-          targetStationId: firstId,
-          lineId: line.id,
-        });
-        firstNode.connections.push({
-          targetStationId: lastId,
-          lineId: line.id,
-        });
-      }
+      connect(
+        line.stationIds[line.stationIds.length - 1],
+        line.stationIds[0],
+        line.id,
+        line.id,
+      );
     }
   }
 
   return graph;
 }
+
+/**
+ * Minimal binary heap used as the A* open set
+ */
+class MinHeap<T> {
+  private items: T[] = [];
+
+  constructor(private compare: (a: T, b: T) => number) {}
+
+  size(): number {
+    return this.items.length;
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(items[i], items[parent]) >= 0) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    if (items.length === 0) return undefined;
+
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (
+          left < items.length &&
+          this.compare(items[left], items[smallest]) < 0
+        ) {
+          smallest = left;
+        }
+        if (
+          right < items.length &&
+          this.compare(items[right], items[smallest]) < 0
+        ) {
+          smallest = right;
+        }
+        if (smallest === i) break;
+        [items[i], items[smallest]] = [items[smallest], items[i]];
+        i = smallest;
+      }
+    }
+
+    return top;
+  }
+}
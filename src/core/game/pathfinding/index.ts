@@ -4,3 +4,4 @@
 
 export * from "./LinePath";
 export * from "./StationGraph";
+export * from "./NetworkGraph";
@@ -0,0 +1,148 @@
+/**
+ * Demand Calendar for MetroMap.io
+ * Decides how busy the network is at a given game time: weekday or weekend
+ * profile, rush-hour windows, public holidays and seasonal variation.
+ */
+
+import {
+  WEEKDAY_DEMAND_PROFILE,
+  WEEKEND_DEMAND_PROFILE,
+  WEEKEND_DAYS,
+  PUBLIC_HOLIDAYS,
+  SEASONAL_DEMAND_MULTIPLIERS,
+} from "../config";
+
+/**
+ * Time-of-day band with its own travel pattern
+ */
+export type DemandBand = "MORNING_RUSH" | "EVENING_RUSH" | "NIGHT" | "OFF_PEAK";
+
+export type DayType = "WEEKDAY" | "WEEKEND" | "HOLIDAY";
+
+/**
+ * A span of hours with its own demand multiplier
+ */
+export interface DemandWindow {
+  startHour: number; // Inclusive
+  endHour: number; // Exclusive; may be lower than startHour to wrap past midnight
+  multiplier: number;
+}
+
+/**
+ * Daily rhythm of demand for one kind of day
+ */
+export interface DemandProfile {
+  morningRush: DemandWindow;
+  eveningRush: DemandWindow;
+  night: DemandWindow;
+  offPeakMultiplier: number;
+}
+
+/**
+ * Everything the spawner needs to know about the current moment
+ */
+export interface DemandConditions {
+  dayType: DayType;
+  band: DemandBand;
+  multiplier: number; // Time-of-day multiplier x seasonal multiplier
+}
+
+const PROFILES: Record<DayType, DemandProfile> = {
+  WEEKDAY: WEEKDAY_DEMAND_PROFILE,
+  WEEKEND: WEEKEND_DEMAND_PROFILE,
+  HOLIDAY: WEEKEND_DEMAND_PROFILE,
+};
+
+/**
+ * Classify a date as a weekday, weekend or public holiday
+ */
+export function getDayType(date: Date): DayType {
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  const day = date.getDate().toString().padStart(2, "0");
+  if (PUBLIC_HOLIDAYS.includes(`${month}-${day}`)) return "HOLIDAY";
+  if (WEEKEND_DAYS.includes(date.getDay())) return "WEEKEND";
+  return "WEEKDAY";
+}
+
+/**
+ * Get the demand profile used on a kind of day
+ */
+export function getDemandProfile(dayType: DayType): DemandProfile {
+  return PROFILES[dayType];
+}
+
+/**
+ * Get the demand band for an hour of the day (0-23)
+ */
+export function getDemandBand(
+  hour: number,
+  profile: DemandProfile = WEEKDAY_DEMAND_PROFILE,
+): DemandBand {
+  if (isInWindow(hour, profile.morningRush)) return "MORNING_RUSH";
+  if (isInWindow(hour, profile.eveningRush)) return "EVENING_RUSH";
+  if (isInWindow(hour, profile.night)) return "NIGHT";
+  return "OFF_PEAK";
+}
+
+/**
+ * Get the demand band and trip multiplier for a moment on the game clock
+ */
+export function getDemandConditions(time: number): DemandConditions {
+  const date = new Date(time);
+  const dayType = getDayType(date);
+  const profile = getDemandProfile(dayType);
+  const band = getDemandBand(date.getHours(), profile);
+
+  return {
+    dayType,
+    band,
+    multiplier:
+      getBandMultiplier(band, profile) *
+      (SEASONAL_DEMAND_MULTIPLIERS[date.getMonth()] ?? 1),
+  };
+}
+
+/**
+ * Get the trip multiplier for a band in a profile
+ */
+export function getBandMultiplier(
+  band: DemandBand,
+  profile: DemandProfile,
+): number {
+  switch (band) {
+    case "MORNING_RUSH":
+      return profile.morningRush.multiplier;
+    case "EVENING_RUSH":
+      return profile.eveningRush.multiplier;
+    case "NIGHT":
+      return profile.night.multiplier;
+    case "OFF_PEAK":
+      return profile.offPeakMultiplier;
+  }
+}
+
+/**
+ * Count the hours of a day that fall in each band
+ */
+export function getBandHours(
+  profile: DemandProfile,
+): Record<DemandBand, number> {
+  const hours: Record<DemandBand, number> = {
+    MORNING_RUSH: 0,
+    EVENING_RUSH: 0,
+    NIGHT: 0,
+    OFF_PEAK: 0,
+  };
+  for (let hour = 0; hour < 24; hour++) {
+    hours[getDemandBand(hour, profile)]++;
+  }
+  return hours;
+}
+
+function isInWindow(hour: number, window: DemandWindow): boolean {
+  if (window.startHour <= window.endHour) {
+    return hour >= window.startHour && hour < window.endHour;
+  }
+  // Wraps past midnight
+  return hour >= window.startHour || hour < window.endHour;
+}
@@ -0,0 +1,333 @@
+/**
+ * Demand Model for MetroMap.io
+ * Origin-destination (OD) matrices of expected trips between every pair of
+ * stations, one per time-of-day band. Built from station catchments
+ * (residential/office density) with distance decay, and cached until the
+ * network changes.
+ */
+
+import type { GameState } from "../models/GameState";
+import type { MapGrid } from "../models/MapGrid";
+import type { Station } from "../models/Station";
+import type { RandomFn } from "../models/GameRandom";
+import type { NetworkGraph } from "../pathfinding/NetworkGraph";
+import { BASE_SPAWN_RATE, DEMAND_DISTANCE_DECAY_SQUARES } from "../config";
+import {
+  getBandHours,
+  getBandMultiplier,
+  getDemandConditions,
+  getDemandProfile,
+  type DemandBand,
+} from "./DemandCalendar";
+
+/**
+ * Expected trips between every pair of stations during one band
+ */
+export interface DemandMatrix {
+  band: DemandBand;
+  stationIds: string[];
+  trips: number[][]; // trips[origin][destination] per game hour, before calendar multipliers
+  originTotals: number[]; // Trips per game hour starting at each origin, before calendar multipliers
+}
+
+/**
+ * The matrix in force at a moment, with the calendar multiplier to apply
+ */
+export interface CurrentDemand {
+  matrix: DemandMatrix;
+  multiplier: number;
+}
+
+/**
+ * A station pair with demand but no route between them
+ */
+export interface UnservedDemand {
+  originId: string;
+  destinationId: string;
+  tripsPerHour: number; // Averaged over a whole weekday
+}
+
+interface CatchmentStats {
+  residential: number; // Total residential density score
+  office: number; // Total office density score
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export class DemandModel {
+  private matrices = new Map<DemandBand, DemandMatrix>();
+  private catchments = new Map<string, CatchmentStats>();
+  private builtRevision: number = -1;
+
+  constructor(
+    private state: GameState,
+    private network: NetworkGraph,
+  ) {}
+
+  /**
+   * Drop all cached matrices; they are rebuilt on the next query
+   * Not needed after network changes, which are picked up automatically
+   */
+  invalidate(): void {
+    this.matrices.clear();
+    this.catchments.clear();
+    this.builtRevision = -1;
+  }
+
+  /**
+   * Get the OD matrix for a band
+   */
+  getMatrix(band: DemandBand): DemandMatrix {
+    if (this.builtRevision !== this.network.getRevision()) {
+      this.invalidate();
+      this.builtRevision = this.network.getRevision();
+    }
+
+    let matrix = this.matrices.get(band);
+    if (!matrix) {
+      matrix = this.buildMatrix(band);
+      this.matrices.set(band, matrix);
+    }
+    return matrix;
+  }
+
+  /**
+   * Get the OD matrix and calendar multiplier for the current game time
+   */
+  getCurrentDemand(): CurrentDemand {
+    const { band, multiplier } = getDemandConditions(this.state.simulationTime);
+    return { matrix: this.getMatrix(band), multiplier };
+  }
+
+  /**
+   * Pick a destination for a trip from an origin, weighted by demand
+   * @returns The destination station ID, or null if the origin generates no trips
+   */
+  sampleDestination(
+    matrix: DemandMatrix,
+    originIndex: number,
+    random: RandomFn,
+  ): string | null {
+    const row = matrix.trips[originIndex];
+    const total = matrix.originTotals[originIndex];
+    if (!row || total <= 0) return null;
+
+    let remaining = random() * total;
+    let lastCandidate: string | null = null;
+    for (let d = 0; d < row.length; d++) {
+      if (row[d] <= 0) continue;
+      lastCandidate = matrix.stationIds[d];
+      remaining -= row[d];
+      if (remaining <= 0) return lastCandidate;
+    }
+
+    // Rounding errors - fall back to the last valid destination
+    return lastCandidate;
+  }
+
+  /**
+   * Get station pairs that have demand but no route, busiest first
+   */
+  getUnservedDemand(): UnservedDemand[] {
+    const daily = new Map<string, UnservedDemand>();
+    const profile = getDemandProfile("WEEKDAY");
+    const bandHours = getBandHours(profile);
+
+    for (const band of Object.keys(bandHours) as DemandBand[]) {
+      const matrix = this.getMatrix(band);
+      const share = (bandHours[band] / 24) * getBandMultiplier(band, profile);
+
+      matrix.trips.forEach((row, o) => {
+        row.forEach((trips, d) => {
+          if (trips <= 0) return;
+
+          const originId = matrix.stationIds[o];
+          const destinationId = matrix.stationIds[d];
+          if (this.network.isReachable(originId, destinationId)) return;
+
+          const key = `${originId}>${destinationId}`;
+          const entry = daily.get(key) ?? {
+            originId,
+            destinationId,
+            tripsPerHour: 0,
+          };
+          entry.tripsPerHour += trips * share;
+          daily.set(key, entry);
+        });
+      });
+    }
+
+    return [...daily.values()].sort((a, b) => b.tripsPerHour - a.tripsPerHour);
+  }
+
+  /**
+   * Build the OD matrix for a band from the current stations
+   */
+  private buildMatrix(band: DemandBand): DemandMatrix {
+    const stations = this.state.stations;
+    const stats = stations.map((s) => this.getCatchment(s));
+
+    const trips: number[][] = [];
+    const originTotals: number[] = [];
+
+    for (let o = 0; o < stations.length; o++) {
+      // Trips generated at the origin
+      // In the morning people leave home; in the evening they leave work
+      let sourcePotential: number;
+      if (band === "MORNING_RUSH") {
+        sourcePotential = stats[o].residential;
+      } else if (band === "EVENING_RUSH") {
+        sourcePotential = stats[o].office;
+      } else {
+        sourcePotential = (stats[o].residential + stats[o].office) * 0.5;
+      }
+
+      // Normalize potential (assuming max density ~100 * 16 squares = 1600)
+      const densityFactor = sourcePotential / (100 * 100 * 25); // Tunable constant
+      const generated = BASE_SPAWN_RATE * densityFactor;
+
+      // Share them out by destination attractiveness and distance
+      const weights = stations.map((destination, d) => {
+        if (d === o) return 0;
+        return (
+          destinationWeight(stats[d], band) *
+          Math.exp(
+            -stationDistance(stations[o], destination) /
+              DEMAND_DISTANCE_DECAY_SQUARES,
+          )
+        );
+      });
+      const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+
+      const row = weights.map((w) =>
+        totalWeight > 0 ? (generated * w) / totalWeight : 0,
+      );
+      trips.push(row);
+      originTotals.push(totalWeight > 0 ? generated : 0);
+    }
+
+    return {
+      band,
+      stationIds: stations.map((s) => s.id),
+      trips,
+      originTotals,
+    };
+  }
+
+  /**
+   * Get the catchment stats for a station (cached until invalidated)
+   */
+  private getCatchment(station: Station): CatchmentStats {
+    let stats = this.catchments.get(station.id);
+    if (!stats) {
+      stats = calculateCatchment(station, this.state.map);
+      this.catchments.set(station.id, stats);
+    }
+    return stats;
+  }
+}
+
+/**
+ * Convert a per-game-hour rate into the chance of one event in a time step
+ */
+export function tripChance(tripsPerHour: number, deltaMs: number): number {
+  return (tripsPerHour * deltaMs) / HOUR_MS;
+}
+
+/**
+ * How attractive a station is as a destination during a band
+ */
+function destinationWeight(stats: CatchmentStats, band: DemandBand): number {
+  const base = 1;
+  if (band === "MORNING_RUSH") {
+    // In morning, people go TO offices
+    return base + stats.office * 2;
+  }
+  if (band === "EVENING_RUSH") {
+    // In evening, people go TO homes
+    return base + stats.residential * 2;
+  }
+  // Balanced/Mixed
+  return base + stats.residential + stats.office;
+}
+
+/**
+ * Straight-line distance between two stations in grid squares
+ */
+function stationDistance(from: Station, to: Station): number {
+  const dx = to.vertexX - from.vertexX;
+  const dy = to.vertexY - from.vertexY;
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+/**
+ * Calculate the residential and office potential for a station
+ * considering surrounding 16 squares (radius 2) and water blocking.
+ * Station is at vertex (x, y), which touches tiles (x-1, y-1) to (x, y).
+ * Land tiles within [x-2, x+1] x [y-2, y+1] count if they can be reached
+ * from those central tiles without crossing water.
+ */
+function calculateCatchment(station: Station, map: MapGrid): CatchmentStats {
+  let totalResidential = 0;
+  let totalOffice = 0;
+
+  const startTiles = [
+    { x: station.vertexX - 1, y: station.vertexY - 1 },
+    { x: station.vertexX, y: station.vertexY - 1 },
+    { x: station.vertexX - 1, y: station.vertexY },
+    { x: station.vertexX, y: station.vertexY },
+  ];
+
+  const minX = station.vertexX - 2;
+  const maxX = station.vertexX + 1;
+  const minY = station.vertexY - 2;
+  const maxY = station.vertexY + 1;
+  const inBounds = (x: number, y: number) =>
+    x >= minX && x <= maxX && y >= minY && y <= maxY;
+
+  const visited = new Set<string>();
+  const queue: { x: number; y: number }[] = [];
+  for (const t of startTiles) {
+    if (inBounds(t.x, t.y) && isValidLandTile(t.x, t.y, map)) {
+      queue.push(t);
+      visited.add(`${t.x},${t.y}`);
+    }
+  }
+
+  // Flood fill across land within the catchment bounds
+  let head = 0;
+  while (head < queue.length) {
+    const current = queue[head++];
+    const tile = map.squares[current.y][current.x];
+
+    // Add density contributions
+    totalResidential += tile.homeDensity;
+    totalOffice += tile.officeDensity;
+
+    // Expand to neighbors
+    const neighbors = [
+      { x: current.x - 1, y: current.y },
+      { x: current.x + 1, y: current.y },
+      { x: current.x, y: current.y - 1 },
+      { x: current.x, y: current.y + 1 },
+    ];
+
+    for (const n of neighbors) {
+      if (
+        inBounds(n.x, n.y) &&
+        !visited.has(`${n.x},${n.y}`) &&
+        isValidLandTile(n.x, n.y, map)
+      ) {
+        visited.add(`${n.x},${n.y}`);
+        queue.push(n);
+      }
+    }
+  }
+
+  return { residential: totalResidential, office: totalOffice };
+}
+
+function isValidLandTile(x: number, y: number, map: MapGrid): boolean {
+  if (x < 0 || x >= map.width || y < 0 || y >= map.height) return false;
+  return map.squares[y][x].type === "LAND";
+}
@@ -4,30 +4,80 @@
  */
 
 import type { GameState } from "../models/GameState";
+import type { MapGrid, TileType } from "../models/MapGrid";
 import type { MetroLine } from "../models/MetroLine";
+import { getLineTrackPaths } from "../models/MetroLine";
+import type { Train } from "../models/Train";
+import { getTrainType } from "../models/Train";
+import {
+  calculateSegmentPath,
+  calculateSnapAngle,
+} from "../pathfinding/LinePath";
 import {
   STATION_BUILD_COST,
   LINE_BUILD_COST_PER_SQUARE,
-  TRAIN_RUNNING_COST_PER_SQUARE,
+  BRIDGE_BUILD_COST_PER_SQUARE,
+  TUNNEL_BUILD_COST_PER_SQUARE,
+  MAX_BRIDGE_SPAN_SQUARES,
+  CREDIT_LIMIT,
   TICKET_REVENUE,
 } from "../config";
 
 /**
- * Calculate the total length of a metro line in grid squares
+ * Build cost of a line's track, split by the terrain it crosses
+ */
+export interface LineCostBreakdown {
+  landSquares: number;
+  bridgeSquares: number; // Water crossings short enough to bridge
+  tunnelSquares: number; // Water crossings longer than MAX_BRIDGE_SPAN_SQUARES, and all track through mountains
+  landCost: number;
+  bridgeCost: number;
+  tunnelCost: number;
+  total: number;
+}
+
+/**
+ * Track drawn over a run of stops, measured against the map
+ */
+interface TrackTerrain {
+  landSquares: number;
+  waterSpans: number[]; // Length of each continuous water crossing
+  mountainSquares: number; // Always tunnelled
+}
+
+// Grid squares between terrain samples along the track
+const TERRAIN_SAMPLE_STEP = 0.25;
+
+/**
+ * Calculate the total track length of a metro line in grid squares
+ * (trunk plus any branches)
  */
 export function calculateLineLength(
   line: MetroLine,
   gameState: GameState,
 ): number {
-  if (line.stationIds.length < 2) {
+  return getLineTrackPaths(line).reduce(
+    (total, stationIds) => total + calculatePathLength(stationIds, gameState),
+    0,
+  );
+}
+
+/**
+ * Calculate the length of a run of consecutive stops in grid squares
+ */
+function calculatePathLength(
+  stationIds: string[],
+  gameState: GameState,
+): number {
+  if (stationIds.length < 2) {
     return 0;
   }
 
   let totalLength = 0;
 
-  for (let i = 0; i < line.stationIds.length - 1; i++) {
-    const fromStationId = line.stationIds[i];
-    const toStationId = line.stationIds[i + 1];
+  for (let i = 0; i < stationIds.length - 1; i++) {
+    const fromStationId = stationIds[i];
+    const toStationId = stationIds[i + 1];
 
     const fromStation = gameState.stations.find((s) => s.id === fromStationId);
     const toStation = gameState.stations.find((s) => s.id === toStationId);
@@ -51,31 +101,216 @@ export function deductStationCost(gameState: GameState): void {
   gameState.money -= STATION_BUILD_COST;
 }
 
+/**
+ * Calculate what a line's track costs to build
+ * Follows the drawn Harry Beck path of every segment across the map tiles:
+ * land is charged at the track rate, water at the bridge or tunnel rate
+ * depending on how long each crossing is, and mountains at the tunnel rate.
+ */
+export function calculateLineCost(
+  line: MetroLine,
+  gameState: GameState,
+): LineCostBreakdown {
+  let landSquares = 0;
+  let bridgeSquares = 0;
+  let tunnelSquares = 0;
+
+  for (const stationIds of getLineTrackPaths(line)) {
+    const terrain = measureTrackTerrain(stationIds, gameState);
+    landSquares += terrain.landSquares;
+    tunnelSquares += terrain.mountainSquares;
+    for (const span of terrain.waterSpans) {
+      if (span <= MAX_BRIDGE_SPAN_SQUARES) {
+        bridgeSquares += span;
+      } else {
+        tunnelSquares += span;
+      }
+    }
+  }
+
+  const landCost = landSquares * LINE_BUILD_COST_PER_SQUARE;
+  const bridgeCost = bridgeSquares * BRIDGE_BUILD_COST_PER_SQUARE;
+  const tunnelCost = tunnelSquares * TUNNEL_BUILD_COST_PER_SQUARE;
+
+  return {
+    landSquares,
+    bridgeSquares,
+    tunnelSquares,
+    landCost,
+    bridgeCost,
+    tunnelCost,
+    total: landCost + bridgeCost + tunnelCost,
+  };
+}
+
+/**
+ * Walk the drawn track over a run of stops, splitting it into land,
+ * continuous water crossings and mountain
+ */
+function measureTrackTerrain(
+  stationIds: string[],
+  gameState: GameState,
+): TrackTerrain {
+  const terrain: TrackTerrain = {
+    landSquares: 0,
+    waterSpans: [],
+    mountainSquares: 0,
+  };
+  const stations = stationIds.map((id) =>
+    gameState.stations.find((s) => s.id === id),
+  );
+  let waterSpan = 0;
+
+  for (let i = 0; i < stations.length - 1; i++) {
+    const from = stations[i];
+    const to = stations[i + 1];
+    if (!from || !to) continue;
+
+    // Same corner smoothing as the renderer, so we charge for the drawn path
+    const next = stations[i + 2];
+    const nextAngle = next ? calculateSnapAngle(to, next) : null;
+    const { waypoints } = calculateSegmentPath(from, to, nextAngle);
+
+    for (let w = 0; w < waypoints.length - 1; w++) {
+      const p1 = waypoints[w];
+      const p2 = waypoints[w + 1];
+      const dx = p2.x - p1.x;
+      const dy = p2.y - p1.y;
+      const length = Math.sqrt(dx * dx + dy * dy);
+      const steps = Math.max(1, Math.ceil(length / TERRAIN_SAMPLE_STEP));
+      const stepLength = length / steps;
+
+      // Classify each step by the terrain under its midpoint
+      for (let k = 0; k < steps; k++) {
+        const t = (k + 0.5) / steps;
+        const tile = getTerrainAt(p1.x + dx * t, p1.y + dy * t, gameState.map);
+        if (tile === "WATER") {
+          waterSpan += stepLength;
+          continue;
+        }
+
+        if (waterSpan > 0) terrain.waterSpans.push(waterSpan);
+        waterSpan = 0;
+        if (tile === "MOUNTAIN") {
+          terrain.mountainSquares += stepLength;
+        } else {
+          terrain.landSquares += stepLength;
+        }
+      }
+    }
+  }
+
+  if (waterSpan > 0) terrain.waterSpans.push(waterSpan);
+  return terrain;
+}
+
+/**
+ * Get the terrain under a point on the grid (in vertex coordinates)
+ * Points on tile edges or corners count as land if any tile they touch is
+ * land, so track running along a shore or a valley wall is charged as land.
+ * Otherwise mountain wins over water.
+ */
+function getTerrainAt(x: number, y: number, map: MapGrid): TileType {
+  const tileXs = Number.isInteger(x) ? [x - 1, x] : [Math.floor(x)];
+  const tileYs = Number.isInteger(y) ? [y - 1, y] : [Math.floor(y)];
+
+  let touchesWater = false;
+  let touchesMountain = false;
+  for (const ty of tileYs) {
+    for (const tx of tileXs) {
+      if (tx < 0 || tx >= map.width || ty < 0 || ty >= map.height) continue;
+      const type = map.squares[ty][tx].type;
+      if (type === "LAND") return "LAND";
+      if (type === "MOUNTAIN") touchesMountain = true;
+      if (type === "WATER") touchesWater = true;
+    }
+  }
+
+  if (touchesMountain) return "MOUNTAIN";
+  return touchesWater ? "WATER" : "LAND";
+}
+
 /**
  * Deduct the cost of building a line from game money
  */
 export function deductLineCost(gameState: GameState, line: MetroLine): void {
-  const lineLength = calculateLineLength(line, gameState);
-  const lineCost = lineLength * LINE_BUILD_COST_PER_SQUARE;
-  gameState.money -= lineCost;
+  gameState.money -= calculateLineCost(line, gameState).total;
+}
+
+/**
+ * Refund the cost of a demolished station
+ */
+export function refundStationCost(gameState: GameState): void {
+  gameState.money += STATION_BUILD_COST;
+}
+
+/**
+ * Refund the build cost of a deleted line
+ */
+export function refundLineCost(gameState: GameState, line: MetroLine): void {
+  gameState.money += calculateLineCost(line, gameState).total;
+}
+
+/**
+ * Charge or refund the change in build cost after a line's track was edited
+ * @param previousLine A copy of the line from before the edit
+ * @returns The amount charged (negative for a refund)
+ */
+export function chargeLineEditCost(
+  gameState: GameState,
+  line: MetroLine,
+  previousLine: MetroLine,
+): number {
+  const cost =
+    calculateLineCost(line, gameState).total -
+    calculateLineCost(previousLine, gameState).total;
+  gameState.money -= cost;
+  return cost;
+}
+
+/**
+ * Pay for a newly bought train
+ */
+export function deductTrainPurchase(gameState: GameState, train: Train): void {
+  gameState.money -= getTrainType(train).purchasePrice;
+}
+
+/**
+ * Refund the purchase price of a train taken out of service
+ */
+export function refundTrainPurchase(gameState: GameState, train: Train): void {
+  gameState.money += getTrainType(train).purchasePrice;
+}
+
+/**
+ * Check whether paying for something keeps the balance within the credit limit
+ */
+export function canAfford(gameState: GameState, cost: number): boolean {
+  return gameState.money - cost >= -CREDIT_LIMIT;
 }
 
 /**
  * Deduct the running cost of a train traveling a certain distance
+ * @returns The amount deducted
  */
 export function deductTrainRunningCost(
   gameState: GameState,
+  train: Train,
   distanceTraveled: number,
-): void {
-  const runningCost = distanceTraveled * TRAIN_RUNNING_COST_PER_SQUARE;
+): number {
+  const runningCost =
+    distanceTraveled * getTrainType(train).runningCostPerSquare;
   gameState.money -= runningCost;
+  return runningCost;
 }
 
 /**
  * Add revenue from a completed passenger journey
+ * @returns The amount added
  */
-export function addTicketRevenue(gameState: GameState): void {
+export function addTicketRevenue(gameState: GameState): number {
   gameState.money += TICKET_REVENUE;
+  return TICKET_REVENUE;
 }
 
 /**
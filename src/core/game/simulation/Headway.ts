@@ -0,0 +1,288 @@
+/**
+ * Headway Control for MetroMap.io
+ * Keeps the trains of each service evenly spaced. Every train's position is
+ * measured as time into the service's cycle (out and back, or one lap of a
+ * loop), and a train arriving at a stop too close behind the train ahead is
+ * held there (its dwell is extended) until the gap is back to the target.
+ *
+ * Times are in simulated seconds at 1x, the same clock routing uses.
+ */
+
+import type { GameState } from "../models/GameState";
+import type { MetroLine, StopPattern } from "../models/MetroLine";
+import {
+  getCallingStationIds,
+  getTrainBranch,
+  getTrainPattern,
+  getTrainStationIds,
+} from "../models/MetroLine";
+import type { Train } from "../models/Train";
+import { getExpectedDwell } from "../models/Station";
+import { getServiceSpeed } from "../models/Train";
+import {
+  TRAIN_DEFAULT_SPEED,
+  HEADWAY_HOLD_TOLERANCE,
+  HEADWAY_MAX_HOLD_SECONDS,
+} from "../config";
+import { octilinearDistance } from "../pathfinding/StationGraph";
+
+/**
+ * Spacing of one train behind the train ahead on its service
+ */
+export interface TrainHeadway {
+  trainId: string;
+  gapAhead: number; // Seconds behind the train in front
+  deviation: number; // gapAhead - target; negative when running too close
+  isHeld: boolean; // Stopped beyond its normal dwell to restore spacing
+}
+
+/**
+ * Headways of the trains running one service pattern in one direction
+ */
+export interface ServiceHeadway {
+  lineId: string;
+  branchId?: string;
+  pattern: StopPattern; // Trains with different stopping patterns are spaced separately
+  direction?: 1 | -1; // Set on loops, where each direction is spaced separately
+  cycleTime: number; // Seconds for one train to complete the cycle
+  targetHeadway: number; // cycleTime / number of trains
+  trains: TrainHeadway[]; // In order around the cycle
+}
+
+/**
+ * Arrival times at every stop of a service, running forwards
+ */
+interface ServiceSchedule {
+  stationIds: string[];
+  arrivals: number[]; // Seconds from leaving the first stop
+  dwells: number[]; // Seconds stopped at each stop (0 where the train runs through)
+  legTimes: number[]; // legTimes[i]: running time from stop i to stop i + 1
+  cycleTime: number;
+  isLoop: boolean;
+}
+
+/**
+ * Get the headways of every service on a line
+ */
+export function getLineHeadways(
+  line: MetroLine,
+  gameState: GameState,
+): ServiceHeadway[] {
+  const headways: ServiceHeadway[] = [];
+
+  for (const trains of groupServiceTrains(line).values()) {
+    const first = trains[0];
+    const schedule = buildSchedule(line, first, gameState);
+    if (!schedule) continue;
+
+    const targetHeadway = schedule.cycleTime / trains.length;
+    headways.push({
+      lineId: line.id,
+      ...(first.branchId ? { branchId: first.branchId } : {}),
+      pattern: getTrainPattern(first),
+      ...(line.isLoop ? { direction: first.direction } : {}),
+      cycleTime: schedule.cycleTime,
+      targetHeadway,
+      trains: getGaps(trains, schedule).map(({ train, gapAhead }) => ({
+        trainId: train.id,
+        gapAhead,
+        deviation: gapAhead - targetHeadway,
+        isHeld: isHeld(train),
+      })),
+    });
+  }
+
+  return headways;
+}
+
+/**
+ * Extend a train's dwell if it arrived too close behind the train ahead
+ * Call when the train has just stopped and been pointed at its next stop.
+ * @returns Seconds the train is held for (0 when on time or late)
+ */
+export function holdForHeadway(
+  train: Train,
+  line: MetroLine,
+  gameState: GameState,
+): number {
+  const trains = groupServiceTrains(line).get(serviceKey(line, train));
+  if (!trains || trains.length < 2) return 0;
+
+  const schedule = buildSchedule(line, train, gameState);
+  if (!schedule) return 0;
+
+  const targetHeadway = schedule.cycleTime / trains.length;
+  const gap = getGaps(trains, schedule).find((g) => g.train === train);
+  if (!gap || gap.gapAhead >= targetHeadway * (1 - HEADWAY_HOLD_TOLERANCE)) {
+    return 0;
+  }
+
+  const hold = Math.min(targetHeadway - gap.gapAhead, HEADWAY_MAX_HOLD_SECONDS);
+  train.dwellRemaining += hold * TRAIN_DEFAULT_SPEED;
+  return hold;
+}
+
+/**
+ * Check whether a train is stopped beyond its boarding dwell by headway control
+ */
+export function isHeld(train: Train): boolean {
+  return (
+    train.state === "STOPPED" && train.dwellRemaining > train.dwellDuration
+  );
+}
+
+/**
+ * Group a line's trains by the service they run: route, stopping pattern
+ * and, on loops, direction
+ */
+function groupServiceTrains(line: MetroLine): Map<string, Train[]> {
+  const groups = new Map<string, Train[]>();
+  for (const train of line.trains) {
+    const key = serviceKey(line, train);
+    const group = groups.get(key) ?? [];
+    group.push(train);
+    groups.set(key, group);
+  }
+  return groups;
+}
+
+function serviceKey(line: MetroLine, train: Train): string {
+  const service = `${getTrainBranch(line, train)?.id ?? ""}#${getTrainPattern(train)}`;
+  return line.isLoop ? `${service}|${train.direction}` : service;
+}
+
+/**
+ * Work out the running times of the service a train runs
+ */
+function buildSchedule(
+  line: MetroLine,
+  train: Train,
+  gameState: GameState,
+): ServiceSchedule | null {
+  const stationIds = getTrainStationIds(line, train);
+  if (stationIds.length < 2) return null;
+
+  const speed = getServiceSpeed(
+    groupServiceTrains(line).get(serviceKey(line, train)) ?? [train],
+  );
+  const legTimes: number[] = [];
+  for (let i = 0; i < stationIds.length; i++) {
+    // On loops the last leg wraps from the closing stop back to the first
+    const from = gameState.stations.find((s) => s.id === stationIds[i]);
+    const to = gameState.stations.find(
+      (s) => s.id === stationIds[(i + 1) % stationIds.length],
+    );
+    if (!from || !to) return null;
+    legTimes.push(octilinearDistance(from, to) / speed);
+  }
+
+  const calling = getCallingStationIds(
+    line,
+    stationIds,
+    getTrainPattern(train),
+  );
+  // Busy stops are scheduled with the longer dwells crowds have caused there
+  const dwells = stationIds.map((id) =>
+    calling.includes(id)
+      ? getExpectedDwell(gameState.stations.find((s) => s.id === id))
+      : 0,
+  );
+
+  const arrivals = [0];
+  for (let i = 1; i < stationIds.length; i++) {
+    arrivals.push(arrivals[i - 1] + dwells[i - 1] + legTimes[i - 1]);
+  }
+
+  // Each call's dwell counts once per cycle: a loop is back at its first
+  // stop on reaching the closing stop, and a linear service dwells once at
+  // each terminal and runs back through the stops in between
+  const last = arrivals.length - 1;
+  const cycleTime = line.isLoop
+    ? arrivals[last]
+    : 2 * arrivals[last] + dwells[last] - dwells[0];
+
+  return {
+    stationIds,
+    arrivals,
+    dwells,
+    legTimes,
+    cycleTime,
+    isLoop: line.isLoop,
+  };
+}
+
+/**
+ * Get how far a train is into its service's cycle, in seconds
+ * Linear services run forwards then back; a train heading back reaches stop
+ * i after the far terminal's dwell and the return legs beyond i.
+ */
+function getCyclePosition(train: Train, schedule: ServiceSchedule): number {
+  const { arrivals, dwells, legTimes, cycleTime } = schedule;
+  const current = train.currentStationIdx;
+  const target = train.targetStationIdx;
+  const stopped = train.state === "STOPPED";
+  // Share of the scheduled dwell already spent, however long boarding takes;
+  // a held train is still at its arrival
+  const dwellElapsed =
+    stopped && train.dwellDuration > 0
+      ? dwells[current] *
+        Math.max(0, 1 - train.dwellRemaining / train.dwellDuration)
+      : 0;
+
+  let position: number;
+  if (schedule.isLoop) {
+    if (train.direction === 1) {
+      position = stopped
+        ? arrivals[current] + dwellElapsed
+        : arrivals[current] +
+          dwells[current] +
+          train.progress * legTimes[current];
+    } else {
+      // Reverse laps are measured as the forward position run backwards
+      const forward = stopped
+        ? arrivals[current] + dwells[current] - dwellElapsed
+        : arrivals[target] +
+          dwells[target] +
+          (1 - train.progress) * legTimes[target];
+      position = cycleTime - forward;
+    }
+  } else {
+    const arrival =
+      train.direction === 1
+        ? arrivals[current]
+        : cycleTime + dwells[0] - arrivals[current] - dwells[current];
+    const legTime = legTimes[Math.min(current, target)];
+    position = stopped
+      ? arrival + dwellElapsed
+      : arrival + dwells[current] + train.progress * legTime;
+  }
+
+  return ((position % cycleTime) + cycleTime) % cycleTime;
+}
+
+/**
+ * Get each train's gap to the train ahead of it around the cycle
+ * Trains level with each other count as ahead, so a train that has just
+ * caught up with another is seen as running too close.
+ * @returns The trains in order around the cycle
+ */
+function getGaps(
+  trains: Train[],
+  schedule: ServiceSchedule,
+): { train: Train; gapAhead: number }[] {
+  const { cycleTime } = schedule;
+  const positioned = trains
+    .map((train) => ({ train, position: getCyclePosition(train, schedule) }))
+    .sort((a, b) => a.position - b.position);
+
+  return positioned.map(({ train, position }) => {
+    let gapAhead = cycleTime;
+    for (const other of positioned) {
+      if (other.train === train) continue;
+      const gap =
+        (((other.position - position) % cycleTime) + cycleTime) % cycleTime;
+      gapAhead = Math.min(gapAhead, gap);
+    }
+    return { train, gapAhead };
+  });
+}
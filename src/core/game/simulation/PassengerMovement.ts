@@ -8,23 +8,45 @@ import type { Train } from "../models/Train";
 import type { Station } from "../models/Station";
 import type { Passenger } from "../models/Passenger";
 import type { MetroLine } from "../models/MetroLine";
-import { TRAIN_MAX_CAPACITY } from "../config";
+import { getTrainStationIds, trainCallsAt } from "../models/MetroLine";
+import type { NetworkGraph } from "../pathfinding/NetworkGraph";
+import {
+  DWELL_SECONDS_PER_PASSENGER,
+  TRAIN_MAX_DWELL_SECONDS,
+  TRAIN_MIN_DWELL_SECONDS,
+} from "../config";
 import { addTicketRevenue } from "./Economics";
+import type { StatisticsTracker } from "./StatisticsTracker";
 
 /**
  * Check if a train is traveling towards a specific station
  * Returns true if the target station is ahead in the train's current direction
+ * on the service pattern (trunk or branch) the train runs
  */
-function isTrainHeadingTowards(
+export function isTrainHeadingTowards(
   train: Train,
   targetStationId: string,
   line: MetroLine,
 ): boolean {
-  const targetIdx = line.stationIds.indexOf(targetStationId);
-  if (targetIdx === -1) return false; // Station not on this line
+  const stationIds = getTrainStationIds(line, train);
+  const targetIdx = stationIds.indexOf(targetStationId);
+  if (targetIdx === -1) return false; // Station not served by this train
 
   const currentIdx = train.currentStationIdx;
 
+  if (line.isLoop) {
+    // Loops reach every station in both directions - take the shorter way round
+    // (the closing station is repeated at the end, so there are length - 1 stops)
+    const stopCount = stationIds.length - 1;
+    const forwardSteps =
+      (((targetIdx - currentIdx) % stopCount) + stopCount) % stopCount;
+    if (forwardSteps === 0) return false;
+    const backwardSteps = stopCount - forwardSteps;
+    return train.direction === 1
+      ? forwardSteps <= backwardSteps
+      : backwardSteps <= forwardSteps;
+  }
+
   if (train.direction === 1) {
     // Moving forward (increasing index)
     return targetIdx > currentIdx;
@@ -34,37 +56,18 @@ function isTrainHeadingTowards(
   }
 }
 
-/**
- * Get the line that connects two stations in a passenger's path
- * Returns the line ID if found, null otherwise
- */
-function getLineConnectingStations(
-  fromStationId: string,
-  toStationId: string,
-  lines: MetroLine[],
-): string | null {
-  for (const line of lines) {
-    const fromIdx = line.stationIds.indexOf(fromStationId);
-    const toIdx = line.stationIds.indexOf(toStationId);
-
-    // Both stations must be on the line (don't need to be adjacent)
-    if (fromIdx !== -1 && toIdx !== -1) {
-      return line.id;
-    }
-  }
-  return null;
-}
-
 /**
  * Handle passenger boarding at a station when a train arrives
+ * @returns Number of passengers who boarded
  */
 export function handlePassengerBoarding(
   station: Station,
   train: Train,
-  gameState: GameState,
-): void {
-  const line = gameState.lines.find((l) => l.id === train.lineId);
-  if (!line) return;
+  network: NetworkGraph,
+  statistics: StatisticsTracker,
+): number {
+  const line = network.getLine(train.lineId);
+  if (!line) return 0;
 
   // Ensure train has passengers array initialized
   if (!train.passengers) {
@@ -77,17 +80,20 @@ export function handlePassengerBoarding(
   );
 
   // Try to board passengers until train is full
+  let boarded = 0;
   for (const passenger of waitingPassengers) {
-    if (train.passengers.length >= TRAIN_MAX_CAPACITY) {
+    if (train.passengers.length >= train.capacity) {
       break; // Train is full
     }
 
     // Check if passenger wants to board this train
-    if (shouldPassengerBoard(passenger, train, line, gameState)) {
+    if (shouldPassengerBoard(passenger, train, line, network)) {
       // Board the passenger
       passenger.currentStationId = undefined;
       passenger.currentTrainId = train.id;
       train.passengers.push(passenger);
+      statistics.recordBoarding(passenger, station.id, line.id);
+      boarded++;
 
       // Remove from station queue
       const idx = station.passengers.indexOf(passenger);
@@ -96,19 +102,20 @@ export function handlePassengerBoarding(
       }
     }
   }
+
+  return boarded;
 }
 
 /**
  * Determine if a passenger should board a specific train
- * Passenger boards if:
- * 1. The train is heading towards their next waypoint, OR
- * 2. The train is heading towards their final destination
+ * Passenger boards if the train runs the line planned for this leg, calls
+ * at their next waypoint and is heading towards it
  */
 function shouldPassengerBoard(
   passenger: Passenger,
   train: Train,
   line: MetroLine,
-  gameState: GameState,
+  network: NetworkGraph,
 ): boolean {
   // Get passenger's next waypoint
   const nextWaypointId = passenger.path[passenger.nextWaypointIndex];
@@ -118,32 +125,35 @@ function shouldPassengerBoard(
   const currentStationId = passenger.currentStationId;
   if (!currentStationId) return false;
 
-  // Get the line that connects current station to next waypoint
-  const requiredLineId = getLineConnectingStations(
-    currentStationId,
-    nextWaypointId,
-    gameState.lines,
-  );
+  // Get the line planned for this leg (older saves only stored stations)
+  const requiredLineId =
+    passenger.pathLineIds?.[passenger.nextWaypointIndex - 1] ??
+    network.getLineConnecting(currentStationId, nextWaypointId)?.id;
 
   // If this train's line doesn't connect to next waypoint, don't board
   if (requiredLineId !== line.id) return false;
 
+  // Express and skip-stop trains run through some stops
+  if (!trainCallsAt(line, train, nextWaypointId)) return false;
+
   // Check if train is heading in the right direction
   return isTrainHeadingTowards(train, nextWaypointId, line);
 }
 
 /**
  * Handle passengers alighting when train reaches a station
+ * @returns Number of passengers who got off
  */
 export function handlePassengerAlighting(
   station: Station,
   train: Train,
   gameState: GameState,
-): void {
+  statistics: StatisticsTracker,
+): number {
   // Ensure train has passengers array initialized
   if (!train.passengers) {
     train.passengers = [];
-    return; // No passengers to alight
+    return 0; // No passengers to alight
   }
 
   const passengersToAlight: Passenger[] = [];
@@ -171,14 +181,18 @@ export function handlePassengerAlighting(
     // Check if this is the final destination
     if (station.id === passenger.destinationStationId) {
       // Passenger has completed their journey
-      completePassengerJourney(passenger, gameState);
+      completePassengerJourney(passenger, gameState, statistics);
     } else {
       // Passenger is transferring - wait at this station for next train
       passenger.currentStationId = station.id;
+      passenger.waitingSince = gameState.simulationTime;
+      passenger.transfers++;
       passenger.nextWaypointIndex++; // Move to next waypoint in path
       station.passengers.push(passenger);
     }
   }
+
+  return passengersToAlight.length;
 }
 
 /**
@@ -187,6 +201,7 @@ export function handlePassengerAlighting(
 function completePassengerJourney(
   passenger: Passenger,
   gameState: GameState,
+  statistics: StatisticsTracker,
 ): void {
   // Remove passenger from global state
   const idx = gameState.passengers.indexOf(passenger);
@@ -211,24 +226,45 @@ function completePassengerJourney(
   passenger.currentTrainId = undefined;
 
   // Add ticket revenue for completed journey
-  addTicketRevenue(gameState);
-
-  // Future: Update score, statistics, etc.
-  // console.log(`Passenger ${passenger.id} completed journey from ${passenger.sourceStationId} to ${passenger.destinationStationId}`);
+  const revenue = addTicketRevenue(gameState);
+  statistics.recordTripCompleted(passenger, revenue);
 }
 
 /**
  * Update passenger movements when trains arrive at stations
  * Call this when a train reaches a station (progress >= 1.0)
+ * @returns Seconds the train needs to stop for everyone to get off and on
  */
 export function updatePassengerMovement(
   train: Train,
   station: Station,
   gameState: GameState,
-): void {
+  network: NetworkGraph,
+  statistics: StatisticsTracker,
+): number {
   // First: Handle alighting (passengers getting off)
-  handlePassengerAlighting(station, train, gameState);
+  const alighted = handlePassengerAlighting(
+    station,
+    train,
+    gameState,
+    statistics,
+  );
 
   // Second: Handle boarding (passengers getting on)
-  handlePassengerBoarding(station, train, gameState);
+  const boarded = handlePassengerBoarding(station, train, network, statistics);
+
+  return getDwellSeconds(alighted + boarded);
+}
+
+/**
+ * Time a train stops for a number of passengers getting off and on
+ */
+export function getDwellSeconds(passengerMoves: number): number {
+  return Math.min(
+    TRAIN_MAX_DWELL_SECONDS,
+    Math.max(
+      TRAIN_MIN_DWELL_SECONDS,
+      passengerMoves * DWELL_SECONDS_PER_PASSENGER,
+    ),
+  );
 }
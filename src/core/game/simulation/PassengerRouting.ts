@@ -0,0 +1,184 @@
+/**
+ * Passenger Routing Logic for MetroMap.io
+ * Assigns itineraries to passengers and re-plans journeys when the network changes
+ */
+
+import type { GameState } from "../models/GameState";
+import type { Passenger, PassengerDropReason } from "../models/Passenger";
+import type { MetroLine } from "../models/MetroLine";
+import {
+  getCallingStationIds,
+  getNextCallingStationIdx,
+  getTrainPattern,
+  getTrainStationIds,
+} from "../models/MetroLine";
+import type { Train } from "../models/Train";
+import type { NetworkGraph } from "../pathfinding/NetworkGraph";
+import {
+  getItineraryWaypoints,
+  type Itinerary,
+} from "../pathfinding/StationGraph";
+import { isTrainHeadingTowards } from "./PassengerMovement";
+
+export interface DroppedPassenger {
+  passengerId: string;
+  reason: PassengerDropReason;
+}
+
+export interface RerouteResult {
+  rerouted: number;
+  dropped: DroppedPassenger[];
+}
+
+/**
+ * Point a passenger at a fresh itinerary starting from their current station
+ */
+export function assignItinerary(
+  passenger: Passenger,
+  itinerary: Itinerary,
+): void {
+  passenger.path = getItineraryWaypoints(itinerary);
+  passenger.pathLineIds = itinerary.legs.map((leg) => leg.lineId);
+  // path[0] is where the passenger is now; the next target is path[1]
+  passenger.nextWaypointIndex = 1;
+}
+
+/**
+ * Remove a passenger from the game and record why their journey ended
+ */
+export function dropPassenger(
+  gameState: GameState,
+  passenger: Passenger,
+  reason: PassengerDropReason,
+): void {
+  const idx = gameState.passengers.indexOf(passenger);
+  if (idx !== -1) {
+    gameState.passengers.splice(idx, 1);
+  }
+
+  for (const station of gameState.stations) {
+    const stationIdx = station.passengers.indexOf(passenger);
+    if (stationIdx !== -1) {
+      station.passengers.splice(stationIdx, 1);
+    }
+  }
+
+  for (const line of gameState.lines) {
+    for (const train of line.trains) {
+      const trainIdx = train.passengers?.indexOf(passenger) ?? -1;
+      if (trainIdx !== -1) {
+        train.passengers.splice(trainIdx, 1);
+      }
+    }
+  }
+
+  passenger.currentStationId = undefined;
+  passenger.currentTrainId = undefined;
+
+  gameState.droppedPassengers[reason] =
+    (gameState.droppedPassengers[reason] ?? 0) + 1;
+}
+
+/**
+ * Re-plan every passenger's journey against the current network.
+ * Waiting passengers are routed from their station; passengers on board are
+ * routed from their train's next stop. Anyone who can no longer reach their
+ * destination is dropped with a reason.
+ * Call after any station, line or train change (with a freshly invalidated network).
+ */
+export function reroutePassengers(
+  gameState: GameState,
+  network: NetworkGraph,
+): RerouteResult {
+  const result: RerouteResult = { rerouted: 0, dropped: [] };
+
+  const trains = new Map<string, { train: Train; line: MetroLine }>();
+  for (const line of gameState.lines) {
+    for (const train of line.trains) {
+      trains.set(train.id, { train, line });
+    }
+  }
+
+  // Iterate over a copy since dropping mutates the list
+  for (const passenger of [...gameState.passengers]) {
+    const reason = reroutePassenger(passenger, trains, network);
+    if (reason) {
+      dropPassenger(gameState, passenger, reason);
+      result.dropped.push({ passengerId: passenger.id, reason });
+    } else {
+      result.rerouted++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Re-plan a single passenger's journey
+ * @returns The reason the passenger must be dropped, or null on success
+ */
+function reroutePassenger(
+  passenger: Passenger,
+  trains: Map<string, { train: Train; line: MetroLine }>,
+  network: NetworkGraph,
+): PassengerDropReason | null {
+  const destinationId = passenger.destinationStationId;
+  if (!network.getStation(destinationId)) return "STATION_REMOVED";
+
+  // Passenger is on board - plan onwards from the train's next stop
+  if (passenger.currentTrainId) {
+    const onBoard = trains.get(passenger.currentTrainId);
+    if (!onBoard) return "TRAIN_REMOVED";
+
+    const { train, line } = onBoard;
+    const stationIds = getTrainStationIds(line, train);
+    const previousStopId = stationIds[train.currentStationIdx];
+    const nextStopId = stationIds[getNextCallingStationIdx(line, train)];
+    if (!previousStopId || !nextStopId) return "TRAIN_REMOVED";
+
+    if (nextStopId === destinationId) {
+      passenger.path = [previousStopId, destinationId];
+      passenger.pathLineIds = [line.id];
+      passenger.nextWaypointIndex = 1;
+      return null;
+    }
+
+    const itinerary = network.findItinerary(nextStopId, destinationId);
+    if (!itinerary) return "NO_ROUTE";
+
+    const waypoints = getItineraryWaypoints(itinerary);
+    const lineIds = itinerary.legs.map((leg) => leg.lineId);
+
+    const callingIds = getCallingStationIds(
+      line,
+      stationIds,
+      getTrainPattern(train),
+    );
+    if (
+      lineIds[0] === line.id &&
+      callingIds.includes(waypoints[1]) &&
+      isTrainHeadingTowards(train, waypoints[1], line)
+    ) {
+      // Best route continues on this train's service in the direction it is
+      // running - stay on board through the next stop
+      passenger.path = [previousStopId, ...waypoints.slice(1)];
+      passenger.pathLineIds = lineIds;
+    } else {
+      // Get off at the next stop and continue from there
+      passenger.path = [previousStopId, ...waypoints];
+      passenger.pathLineIds = [line.id, ...lineIds];
+    }
+    passenger.nextWaypointIndex = 1;
+    return null;
+  }
+
+  // Passenger is waiting - plan from their current station
+  const stationId = passenger.currentStationId;
+  if (!stationId || !network.getStation(stationId)) return "STATION_REMOVED";
+
+  const itinerary = network.findItinerary(stationId, destinationId);
+  if (!itinerary) return "NO_ROUTE";
+
+  assignItinerary(passenger, itinerary);
+  return null;
+}
@@ -0,0 +1,170 @@
+/**
+ * Block Signalling for MetroMap.io
+ * Track between two consecutive stops is split into blocks, and a train may
+ * only enter a block that no other train holds. Trains queue at the signal
+ * before an occupied block, and a train stopped at a platform keeps the last
+ * block it arrived through until it leaves.
+ *
+ * Each direction between two stops is its own track, shared by every line
+ * running it: block keys are built from station IDs, not line IDs.
+ *
+ * When trains end up waiting on each other in a circle (more trains than a
+ * short line has blocks), the train that closes the circle is let through.
+ */
+
+import type { GameState } from "../models/GameState";
+import type { MetroLine } from "../models/MetroLine";
+import { getTrainStationIds } from "../models/MetroLine";
+import type { Station } from "../models/Station";
+import type { Train } from "../models/Train";
+import { SIGNAL_BLOCK_LENGTH_SQUARES } from "../config";
+import { octilinearDistance } from "../pathfinding/StationGraph";
+
+export class TrackOccupancy {
+  private holders = new Map<string, Set<string>>(); // Block key -> train IDs
+  private waits = new Map<string, string[]>(); // Train ID -> trains holding the block it waits for
+  private stations = new Map<string, Station>();
+
+  constructor(private state: GameState) {}
+
+  /**
+   * Collect the blocks every train currently holds
+   * Call at the start of every tick; trains and routes may have changed.
+   */
+  sync(): void {
+    const { state } = this;
+    this.holders.clear();
+    this.stations = new Map(state.stations.map((s) => [s.id, s]));
+
+    const trainIds = new Set<string>();
+    for (const line of state.lines) {
+      for (const train of line.trains ?? []) {
+        const track = this.getTrack(train, line);
+        if (!track) continue;
+
+        // Trains out on the track without a block (new or from older saves)
+        // or whose route was edited under them take the block at their
+        // position; those still on a platform claim when they leave
+        const onTrack = train.signalBlock?.startsWith(`${track.key}/`);
+        if (
+          train.progress > 0 &&
+          (!train.signalBlock || (train.state === "MOVING" && !onTrack))
+        ) {
+          train.signalBlock = blockKey(
+            track.key,
+            blockIndexAt(train.progress, track.blocks),
+          );
+        }
+        trainIds.add(train.id);
+        if (train.signalBlock) this.claim(train, train.signalBlock);
+      }
+    }
+
+    // Forget waits of trains that were removed
+    for (const id of this.waits.keys()) {
+      if (!trainIds.has(id)) this.waits.delete(id);
+    }
+  }
+
+  /**
+   * Work out how far a train may move towards its target stop
+   * Claims every block up to the requested position that is clear, and
+   * releases the blocks it leaves behind.
+   * @param progress - Requested progress along the current segment (0-1)
+   * @returns Progress the train may move to; short of the first occupied block
+   */
+  advance(train: Train, line: MetroLine, progress: number): number {
+    const track = this.getTrack(train, line);
+    if (!track) return progress;
+
+    const prefix = `${track.key}/`;
+    const current = train.signalBlock?.startsWith(prefix)
+      ? Number(train.signalBlock.slice(prefix.length))
+      : -1; // Still on the platform, holding the block it arrived through
+    const wanted = blockIndexAt(Math.min(progress, 1), track.blocks);
+
+    for (let block = current + 1; block <= wanted; block++) {
+      const key = blockKey(track.key, block);
+      const blockers = this.getHolders(key).filter((id) => id !== train.id);
+      if (blockers.length > 0 && !this.isDeadlocked(train.id, blockers)) {
+        this.waits.set(train.id, blockers);
+        return Math.max(train.progress, block / track.blocks);
+      }
+      this.claim(train, key);
+    }
+
+    this.waits.delete(train.id);
+    return progress;
+  }
+
+  private getHolders(key: string): string[] {
+    return [...(this.holders.get(key) ?? [])];
+  }
+
+  /**
+   * Check whether the trains in the way are (through others) waiting for
+   * this train, so none of them can ever move
+   */
+  private isDeadlocked(trainId: string, blockers: string[]): boolean {
+    const visited = new Set<string>();
+    const stack = [...blockers];
+
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (id === trainId) return true;
+      if (visited.has(id)) continue;
+      visited.add(id);
+      stack.push(...(this.waits.get(id) ?? []));
+    }
+
+    return false;
+  }
+
+  /**
+   * Move a train's claim to a block, releasing the one it held
+   */
+  private claim(train: Train, key: string): void {
+    if (train.signalBlock && train.signalBlock !== key) {
+      this.holders.get(train.signalBlock)?.delete(train.id);
+    }
+    train.signalBlock = key;
+
+    const holders = this.holders.get(key) ?? new Set<string>();
+    holders.add(train.id);
+    this.holders.set(key, holders);
+  }
+
+  /**
+   * Get the directional track a train is running on and its block count
+   */
+  private getTrack(
+    train: Train,
+    line: MetroLine,
+  ): { key: string; blocks: number } | null {
+    const stationIds = getTrainStationIds(line, train);
+    const from = this.stations.get(stationIds[train.currentStationIdx]);
+    const to = this.stations.get(stationIds[train.targetStationIdx]);
+    if (!from || !to || from === to) return null; // Loop closing stop
+
+    // Sized from the stops alone so every line on the track agrees
+    // At least two, so a train can pull out while another waits to come in
+    // behind the one standing at the far platform
+    const blocks = Math.max(
+      2,
+      Math.ceil(octilinearDistance(from, to) / SIGNAL_BLOCK_LENGTH_SQUARES),
+    );
+    return { key: `${from.id}>${to.id}`, blocks };
+  }
+}
+
+function blockKey(trackKey: string, block: number): string {
+  return `${trackKey}/${block}`;
+}
+
+/**
+ * Get the block a position along a track falls in
+ * A position exactly on a signal counts as the block behind it
+ */
+function blockIndexAt(progress: number, blocks: number): number {
+  return Math.min(blocks - 1, Math.max(0, Math.ceil(progress * blocks) - 1));
+}
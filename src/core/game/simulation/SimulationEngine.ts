@@ -0,0 +1,219 @@
+/**
+ * Simulation Engine for MetroMap.io
+ * Owns the simulation clock and runs all simulation systems at a fixed timestep.
+ * Pure TypeScript with no renderer dependencies, so it can be stepped headlessly.
+ */
+
+import type { GameState } from "../models/GameState";
+import type { SimulationSpeed } from "../../interfaces/types";
+import {
+  BASE_GAME_SPEED,
+  ROUTING_REFRESH_MS,
+  SIMULATION_TICK_MS,
+  SIMULATION_MAX_TICKS_PER_ADVANCE,
+} from "../config";
+import { NetworkGraph } from "../pathfinding/NetworkGraph";
+import { initializeTrains, updateTrains } from "./TrainMovement";
+import { updatePassengerSpawning } from "./PassengerSpawner";
+import { reroutePassengers } from "./PassengerRouting";
+import {
+  updatePassengerPatience,
+  updateStationCrowding,
+} from "./StationCrowding";
+import { StatisticsTracker } from "./StatisticsTracker";
+import { DemandModel } from "./DemandModel";
+import { TrackOccupancy } from "./Signalling";
+
+// Real (1x) seconds covered by one tick
+const TICK_SECONDS = SIMULATION_TICK_MS / 1000;
+
+// Game-clock milliseconds covered by one tick
+const TICK_GAME_MS = TICK_SECONDS * BASE_GAME_SPEED;
+
+export class SimulationEngine {
+  private accumulatorMs: number = 0;
+  private tickCount: number = 0;
+  private statistics: StatisticsTracker;
+  private demand: DemandModel;
+  private occupancy: TrackOccupancy;
+
+  constructor(
+    private state: GameState,
+    private network: NetworkGraph = new NetworkGraph(state),
+  ) {
+    this.statistics = new StatisticsTracker(state);
+    this.demand = new DemandModel(state, network);
+    this.occupancy = new TrackOccupancy(state);
+  }
+
+  /**
+   * Calculate how many ticks are needed to cover a span of game time
+   * @param gameTimeMs - Duration on the game clock in milliseconds
+   */
+  static ticksForGameTime(gameTimeMs: number): number {
+    return Math.ceil(gameTimeMs / TICK_GAME_MS);
+  }
+
+  /**
+   * Prepare the game state for simulation (trains, cached paths)
+   */
+  initialize(): void {
+    initializeTrains(this.state);
+    // The network may have been edited since the last run
+    this.network.invalidate();
+    reroutePassengers(this.state, this.network);
+    this.accumulatorMs = 0;
+  }
+
+  /**
+   * Advance the simulation by elapsed real time.
+   * Runs as many whole ticks as fit (scaled by speed) and carries the remainder.
+   * @param realDeltaMs - Real time elapsed since the last call in milliseconds
+   * @returns Number of ticks that were run
+   */
+  advance(realDeltaMs: number): number {
+    if (this.state.isPaused || this.state.gameOver) return 0;
+
+    this.accumulatorMs += realDeltaMs * this.state.speed;
+
+    let ticks = 0;
+    while (
+      this.accumulatorMs >= SIMULATION_TICK_MS &&
+      ticks < SIMULATION_MAX_TICKS_PER_ADVANCE
+    ) {
+      this.tick();
+      this.accumulatorMs -= SIMULATION_TICK_MS;
+      ticks++;
+    }
+
+    // Too far behind (e.g. tab was in background) - drop the backlog
+    if (ticks === SIMULATION_MAX_TICKS_PER_ADVANCE) {
+      this.accumulatorMs = 0;
+    }
+
+    return ticks;
+  }
+
+  /**
+   * Run an exact number of ticks, ignoring pause state and speed
+   * Stops early if the game ends
+   */
+  step(ticks: number = 1): void {
+    for (let i = 0; i < ticks && !this.state.gameOver; i++) {
+      this.tick();
+    }
+  }
+
+  /**
+   * Run the simulation until the game clock has moved forward by the given duration
+   * @param gameTimeMs - Duration on the game clock in milliseconds
+   */
+  runFor(gameTimeMs: number): void {
+    this.step(SimulationEngine.ticksForGameTime(gameTimeMs));
+  }
+
+  /**
+   * Run a single fixed-length tick of all simulation systems
+   */
+  private tick(): void {
+    const previousTime = this.state.simulationTime;
+    this.state.simulationTime += TICK_GAME_MS;
+
+    // Re-cost routes with recent dwell times at fixed points on the game
+    // clock, so routes don't depend on when a journey was first planned
+    if (
+      Math.floor(previousTime / ROUTING_REFRESH_MS) !==
+      Math.floor(this.state.simulationTime / ROUTING_REFRESH_MS)
+    ) {
+      this.network.refreshRouting();
+    }
+
+    updatePassengerSpawning(
+      this.state,
+      TICK_GAME_MS,
+      this.network,
+      this.demand,
+    );
+    updateTrains(
+      this.state,
+      TICK_SECONDS,
+      this.network,
+      this.statistics,
+      this.occupancy,
+    );
+    updatePassengerPatience(this.state, this.statistics);
+    updateStationCrowding(this.state);
+
+    this.tickCount++;
+  }
+
+  /**
+   * Get the number of ticks run since this engine was created
+   */
+  getTickCount(): number {
+    return this.tickCount;
+  }
+
+  /**
+   * Get the current simulation speed multiplier
+   */
+  getSpeed(): SimulationSpeed {
+    return this.state.speed as SimulationSpeed;
+  }
+
+  /**
+   * Set the simulation speed multiplier
+   */
+  setSpeed(speed: SimulationSpeed): void {
+    this.state.speed = speed;
+  }
+
+  /**
+   * Check if the game has ended
+   */
+  isGameOver(): boolean {
+    return this.state.gameOver !== null;
+  }
+
+  /**
+   * Check if the simulation is paused
+   */
+  isPaused(): boolean {
+    return this.state.isPaused;
+  }
+
+  /**
+   * Pause or resume the simulation
+   */
+  setPaused(paused: boolean): void {
+    this.state.isPaused = paused;
+  }
+
+  /**
+   * Get the cached network graph used by the simulation
+   */
+  getNetwork(): NetworkGraph {
+    return this.network;
+  }
+
+  /**
+   * Get the origin-destination demand model used for spawning
+   */
+  getDemandModel(): DemandModel {
+    return this.demand;
+  }
+
+  /**
+   * Get the statistics recorded by the simulation
+   */
+  getStatistics(): StatisticsTracker {
+    return this.statistics;
+  }
+
+  /**
+   * Get the game state driven by this engine
+   */
+  getState(): GameState {
+    return this.state;
+  }
+}
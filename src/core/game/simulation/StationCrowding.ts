@@ -0,0 +1,101 @@
+/**
+ * Station Crowding Logic for MetroMap.io
+ * Passengers give up after waiting too long, and stations that stay over
+ * capacity for too long trigger a failure (game over or penalty).
+ */
+
+import type { GameState } from "../models/GameState";
+import type { Station } from "../models/Station";
+import { hasPassengerGivenUp } from "../models/Passenger";
+import {
+  STATION_MAX_CAPACITY,
+  OVERCROWDING_GRACE_MS,
+  OVERCROWDING_FAILURE_MODE,
+  OVERCROWDING_PENALTY,
+} from "../config";
+import { dropPassenger } from "./PassengerRouting";
+import type { StatisticsTracker } from "./StatisticsTracker";
+
+/**
+ * Remove waiting passengers who have run out of patience
+ * Passengers on board a train never give up
+ * @returns Number of passengers who abandoned their journey
+ */
+export function updatePassengerPatience(
+  gameState: GameState,
+  statistics: StatisticsTracker,
+): number {
+  let abandoned = 0;
+
+  for (const station of gameState.stations) {
+    // Iterate over a copy since dropping mutates the queue
+    for (const passenger of [...station.passengers]) {
+      if (hasPassengerGivenUp(passenger, gameState.simulationTime)) {
+        dropPassenger(gameState, passenger, "ABANDONED");
+        statistics.recordTripAbandoned();
+        abandoned++;
+      }
+    }
+  }
+
+  return abandoned;
+}
+
+/**
+ * Track how long each station has been over capacity and apply the
+ * configured failure when one stays overcrowded past the grace period
+ */
+export function updateStationCrowding(gameState: GameState): void {
+  const now = gameState.simulationTime;
+
+  for (const station of gameState.stations) {
+    if (getStationOverflow(station) === 0) {
+      station.overcrowdedSince = undefined;
+      continue;
+    }
+
+    if (station.overcrowdedSince === undefined) {
+      station.overcrowdedSince = now;
+      continue;
+    }
+
+    if (now - station.overcrowdedSince < OVERCROWDING_GRACE_MS) continue;
+
+    if (OVERCROWDING_FAILURE_MODE === "GAME_OVER") {
+      gameState.gameOver = {
+        reason: "OVERCROWDING",
+        stationId: station.id,
+        time: now,
+      };
+      gameState.isPaused = true;
+      return;
+    }
+
+    if (OVERCROWDING_FAILURE_MODE === "PENALTY") {
+      gameState.money -= OVERCROWDING_PENALTY;
+      station.overcrowdedSince = now;
+    }
+  }
+}
+
+/**
+ * Get how many waiting passengers a station holds beyond its capacity
+ */
+export function getStationOverflow(station: Station): number {
+  return Math.max(0, station.passengers.length - STATION_MAX_CAPACITY);
+}
+
+/**
+ * Get how close an overcrowded station is to failing
+ * @returns 0 when not overcrowded, rising to 1 at the end of the grace period
+ */
+export function getOvercrowdingProgress(
+  station: Station,
+  currentTime: number,
+): number {
+  if (station.overcrowdedSince === undefined) return 0;
+  return Math.min(
+    1,
+    (currentTime - station.overcrowdedSince) / OVERCROWDING_GRACE_MS,
+  );
+}
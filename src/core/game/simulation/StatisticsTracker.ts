@@ -0,0 +1,233 @@
+/**
+ * Statistics Tracker for MetroMap.io
+ * Records journey and cost KPIs into rolling hourly and daily buckets.
+ * All data lives in GameState.statistics so it survives save/load.
+ */
+
+import type { GameState } from "../models/GameState";
+import type { Passenger } from "../models/Passenger";
+import {
+  createStatisticsBucket,
+  type StatisticsBucket,
+} from "../models/Statistics";
+import { STATS_HOURLY_BUCKETS, STATS_DAILY_BUCKETS } from "../config";
+
+/**
+ * Span of history to look at
+ */
+export type StatisticsWindow = "DAY" | "WEEK" | "ALL";
+
+/**
+ * Averages and rates derived from a bucket
+ */
+export interface StatisticsSummary {
+  tripsCompleted: number;
+  tripsAbandoned: number;
+  averageTripTime: number; // Game ms
+  averageWaitTime: number; // Game ms
+  averageTransfers: number;
+  abandonmentRate: number; // Share of finished journeys that were abandoned (0-1)
+  revenue: number;
+  runningCost: number;
+  profit: number;
+}
+
+export class StatisticsTracker {
+  constructor(private state: GameState) {}
+
+  /**
+   * Record a passenger reaching their destination
+   * @param revenue - Fare collected for the trip
+   */
+  recordTripCompleted(passenger: Passenger, revenue: number): void {
+    const tripTime = this.state.simulationTime - passenger.spawnTime;
+    this.record((bucket) => {
+      bucket.tripsCompleted++;
+      bucket.totalTripTime += tripTime;
+      bucket.totalTransfers += passenger.transfers;
+      bucket.revenue += revenue;
+    });
+  }
+
+  /**
+   * Record a passenger boarding a train after waiting on a platform
+   */
+  recordBoarding(
+    passenger: Passenger,
+    stationId: string,
+    lineId: string,
+  ): void {
+    const waitTime = this.state.simulationTime - passenger.waitingSince;
+    this.record((bucket) => {
+      bucket.boardings++;
+      bucket.totalWaitTime += waitTime;
+      bucket.boardingsByLine[lineId] =
+        (bucket.boardingsByLine[lineId] ?? 0) + 1;
+
+      const stationStats = (bucket.waitByStation[stationId] ??= {
+        totalWaitTime: 0,
+        boardings: 0,
+      });
+      stationStats.boardings++;
+      stationStats.totalWaitTime += waitTime;
+    });
+  }
+
+  /**
+   * Record a passenger giving up on their journey
+   */
+  recordTripAbandoned(): void {
+    this.record((bucket) => {
+      bucket.tripsAbandoned++;
+    });
+  }
+
+  /**
+   * Record a train on a line moving some distance
+   * @param distance - Squares travelled
+   * @param passengerCount - Passengers on board
+   * @param capacity - Passengers the train can carry
+   * @param cost - Running cost of the move
+   */
+  recordTrainTravel(
+    lineId: string,
+    distance: number,
+    passengerCount: number,
+    capacity: number,
+    cost: number,
+  ): void {
+    this.record((bucket) => {
+      const load = (bucket.loadByLine[lineId] ??= {
+        passengerDistance: 0,
+        capacityDistance: 0,
+      });
+      load.passengerDistance += distance * passengerCount;
+      load.capacityDistance += distance * capacity;
+
+      bucket.runningCost += cost;
+      bucket.runningCostByLine[lineId] =
+        (bucket.runningCostByLine[lineId] ?? 0) + cost;
+    });
+  }
+
+  /**
+   * Get figures since the start of the game
+   */
+  getTotals(): StatisticsBucket {
+    return this.state.statistics.totals;
+  }
+
+  /**
+   * Get the most recent hourly buckets, oldest first
+   */
+  getHourlyBuckets(): readonly StatisticsBucket[] {
+    return this.state.statistics.hourly;
+  }
+
+  /**
+   * Get the most recent daily buckets, oldest first
+   */
+  getDailyBuckets(): readonly StatisticsBucket[] {
+    return this.state.statistics.daily;
+  }
+
+  /**
+   * Get the buckets covering a window, oldest first
+   * The last day and week use hourly buckets; all time uses daily buckets
+   */
+  getBuckets(window: StatisticsWindow): readonly StatisticsBucket[] {
+    const { hourly, daily } = this.state.statistics;
+    switch (window) {
+      case "DAY":
+        return hourly.slice(-24);
+      case "WEEK":
+        return hourly.slice(-7 * 24);
+      case "ALL":
+        return daily;
+    }
+  }
+
+  /**
+   * Apply a change to the running totals and the current hour and day
+   */
+  private record(apply: (bucket: StatisticsBucket) => void): void {
+    const { statistics, simulationTime, money } = this.state;
+
+    const buckets = [
+      statistics.totals,
+      currentBucket(
+        statistics.hourly,
+        startOfHour(simulationTime),
+        STATS_HOURLY_BUCKETS,
+        money,
+      ),
+      currentBucket(
+        statistics.daily,
+        startOfDay(simulationTime),
+        STATS_DAILY_BUCKETS,
+        money,
+      ),
+    ];
+    for (const bucket of buckets) {
+      apply(bucket);
+      bucket.closingMoney = money;
+    }
+  }
+}
+
+/**
+ * Derive averages and rates from a bucket
+ */
+export function summarizeStatistics(
+  bucket: StatisticsBucket,
+): StatisticsSummary {
+  const finished = bucket.tripsCompleted + bucket.tripsAbandoned;
+  return {
+    tripsCompleted: bucket.tripsCompleted,
+    tripsAbandoned: bucket.tripsAbandoned,
+    averageTripTime: average(bucket.totalTripTime, bucket.tripsCompleted),
+    averageWaitTime: average(bucket.totalWaitTime, bucket.boardings),
+    averageTransfers: average(bucket.totalTransfers, bucket.tripsCompleted),
+    abandonmentRate: average(bucket.tripsAbandoned, finished),
+    revenue: bucket.revenue,
+    runningCost: bucket.runningCost,
+    profit: bucket.revenue - bucket.runningCost,
+  };
+}
+
+/**
+ * Get the bucket starting at the given time, appending it (and dropping the
+ * oldest beyond the limit) if the clock has moved into a new period
+ */
+function currentBucket(
+  buckets: StatisticsBucket[],
+  startTime: number,
+  maxBuckets: number,
+  money: number,
+): StatisticsBucket {
+  const last = buckets[buckets.length - 1];
+  if (last && last.startTime === startTime) return last;
+
+  const bucket = createStatisticsBucket(startTime, money);
+  buckets.push(bucket);
+  if (buckets.length > maxBuckets) {
+    buckets.splice(0, buckets.length - maxBuckets);
+  }
+  return bucket;
+}
+
+function startOfHour(time: number): number {
+  const date = new Date(time);
+  date.setMinutes(0, 0, 0);
+  return date.getTime();
+}
+
+function startOfDay(time: number): number {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+function average(total: number, count: number): number {
+  return count > 0 ? total / count : 0;
+}
@@ -6,20 +6,28 @@
 import type { GameState } from "../models/GameState";
 import type { Train } from "../models/Train";
 import type { MetroLine } from "../models/MetroLine";
-import { createTrain } from "../models/Train";
 import {
-  TRAIN_DEFAULT_SPEED,
-  TRAIN_STOP_DURATION_SQUARES,
-  TRAIN_ACCEL_DECEL_DISTANCE,
-} from "../config";
+  getLineTrackPaths,
+  getTrainBranch,
+  getTrainStationIds,
+  trainCallsAt,
+} from "../models/MetroLine";
+import { createTrain, getTrainType } from "../models/Train";
+import { recordDwell } from "../models/Station";
+import { gameRandom } from "../models/GameRandom";
+import { TRAIN_DEFAULT_SPEED, TRAIN_MIN_DWELL_SECONDS } from "../config";
 import {
   calculateSegmentPath,
   calculateSnapAngle,
   Direction,
   type LineSegment,
 } from "../pathfinding/LinePath";
+import type { NetworkGraph } from "../pathfinding/NetworkGraph";
 import { updatePassengerMovement } from "./PassengerMovement";
-import { deductTrainRunningCost } from "./Economics";
+import { deductTrainPurchase, deductTrainRunningCost } from "./Economics";
+import { holdForHeadway } from "./Headway";
+import type { TrackOccupancy } from "./Signalling";
+import type { StatisticsTracker } from "./StatisticsTracker";
 
 /**
  * Initialize trains on lines that don't have them
@@ -28,8 +36,9 @@ export function initializeTrains(gameState: GameState): void {
   for (const line of gameState.lines) {
     if (!line.trains || line.trains.length === 0) {
       line.trains = [];
-      // Add one train per line
-      const train = createTrain(line.id, 0); // Start at first station
+      // Add one train per line, paid for like any other so deleting the line refunds it
+      const train = createTrain(line.id, gameRandom(gameState), 0); // Start at first station
+      deductTrainPurchase(gameState, train);
 
       // Initial path calculation
       updateTrainPath(train, line, gameState);
@@ -54,7 +63,15 @@ export function initializeTrains(gameState: GameState): void {
 /**
  * Update trains movement
  */
-export function updateTrains(gameState: GameState, deltaSeconds: number): void {
+export function updateTrains(
+  gameState: GameState,
+  deltaSeconds: number,
+  network: NetworkGraph,
+  statistics: StatisticsTracker,
+  occupancy: TrackOccupancy,
+): void {
+  occupancy.sync();
+
   for (const line of gameState.lines) {
     if (!line.trains) continue;
 
@@ -91,107 +108,205 @@ export function updateTrains(gameState: GameState, deltaSeconds: number): void {
 
       // Handle MOVING state
       if (train.state === "MOVING") {
+        const { speed, accelDecelDistance } = getTrainType(train);
         const distTotal = train.totalLength;
         const distCovered = train.progress * distTotal;
         const distRemaining = distTotal - distCovered;
+        const stationIds = getTrainStationIds(line, train);
 
         // Acceleration/Deceleration Logic
+        // Trains keep their speed through stops they skip
         let speedFactor = 1.0;
 
         // Accelerate when leaving previous station
-        if (distCovered < TRAIN_ACCEL_DECEL_DISTANCE) {
+        if (
+          distCovered < accelDecelDistance &&
+          trainCallsAt(line, train, stationIds[train.currentStationIdx])
+        ) {
           // Ramp from 0 to 1. Use max(0.1) to ensure movement.
-          const accelFactor = Math.max(
-            0.1,
-            distCovered / TRAIN_ACCEL_DECEL_DISTANCE,
-          );
+          const accelFactor = Math.max(0.1, distCovered / accelDecelDistance);
           speedFactor = Math.min(speedFactor, accelFactor);
         }
 
         // Decelerate when approaching next station
-        if (distRemaining < TRAIN_ACCEL_DECEL_DISTANCE) {
-          const decelFactor = Math.max(
-            0.1,
-            distRemaining / TRAIN_ACCEL_DECEL_DISTANCE,
-          );
+        if (
+          distRemaining < accelDecelDistance &&
+          trainCallsAt(line, train, stationIds[train.targetStationIdx])
+        ) {
+          const decelFactor = Math.max(0.1, distRemaining / accelDecelDistance);
           speedFactor = Math.min(speedFactor, decelFactor);
         }
 
         // Calculate movement distance
-        const currentSpeed = TRAIN_DEFAULT_SPEED * speedFactor;
-        const moveDist = currentSpeed * deltaSeconds;
-
-        // Deduct running cost for distance traveled
-        deductTrainRunningCost(gameState, moveDist);
+        const currentSpeed = speed * speedFactor;
+        const wantedDist = currentSpeed * deltaSeconds;
 
         // Avoid division by zero for zero-length segments
-        const progressIncrement =
-          train.totalLength > 0 ? moveDist / train.totalLength : 1;
+        const wantedProgress =
+          train.progress +
+          (train.totalLength > 0 ? wantedDist / train.totalLength : 1);
+
+        // Stop at the signal before an occupied block
+        const nextProgress = occupancy.advance(train, line, wantedProgress);
+        train.atSignal = nextProgress < Math.min(wantedProgress, 1);
+        const moveDist = (nextProgress - train.progress) * train.totalLength;
+
+        // Deduct running cost for distance traveled
+        const runningCost = deductTrainRunningCost(gameState, train, moveDist);
+        statistics.recordTrainTravel(
+          line.id,
+          moveDist,
+          train.passengers?.length ?? 0,
+          train.capacity,
+          runningCost,
+        );
 
-        train.progress += progressIncrement;
+        train.progress = nextProgress;
 
         // Check if reached destination
         if (train.progress >= 1.0) {
-          // Arrived at station -> SWITCH TO STOPPED STATE
-
           // Snap to end
           train.currentStationIdx = train.targetStationIdx;
           train.progress = 0; // Reset progress for next segment
 
-          // Set state to stopped
-          train.state = "STOPPED";
-          train.dwellRemaining = TRAIN_STOP_DURATION_SQUARES;
-
           // Determine next target and direction BEFORE passenger boarding
           // This ensures passengers see the correct direction when deciding to board
-          if (line.isLoop) {
-            // Circular movement
-            if (train.direction === 1) {
-              train.targetStationIdx =
-                (train.currentStationIdx + 1) % line.stationIds.length;
-            } else {
-              train.targetStationIdx =
-                (train.currentStationIdx - 1 + line.stationIds.length) %
-                line.stationIds.length;
-            }
-          } else {
-            // Linear movement
-            if (train.direction === 1) {
-              if (train.currentStationIdx >= line.stationIds.length - 1) {
-                // Reached end, reverse
-                train.direction = -1;
-                train.targetStationIdx = train.currentStationIdx - 1;
-              } else {
-                train.targetStationIdx = train.currentStationIdx + 1;
-              }
-            } else {
-              if (train.currentStationIdx <= 0) {
-                // Reached start, reverse
-                train.direction = 1;
-                train.targetStationIdx = train.currentStationIdx + 1;
-              } else {
-                train.targetStationIdx = train.currentStationIdx - 1;
-              }
-            }
-          }
-
-          // Handle passenger boarding and alighting AFTER direction is set
-          const currentStationId = line.stationIds[train.currentStationIdx];
-          const currentStation = gameState.stations.find(
-            (s) => s.id === currentStationId,
-          );
-          if (currentStation) {
-            updatePassengerMovement(train, currentStation, gameState);
+          setNextTarget(train, line);
+
+          const currentStationId = stationIds[train.currentStationIdx];
+          const calls = trainCallsAt(line, train, currentStationId);
+          if (calls) {
+            // Arrived at a stop it calls at -> SWITCH TO STOPPED STATE
+            train.state = "STOPPED";
+
+            // Handle passenger boarding and alighting AFTER direction is set
+            // The more people get off and on, the longer the train stands
+            const currentStation = network.getStation(currentStationId);
+            const dwellSeconds = currentStation
+              ? updatePassengerMovement(
+                  train,
+                  currentStation,
+                  gameState,
+                  network,
+                  statistics,
+                )
+              : TRAIN_MIN_DWELL_SECONDS;
+            if (currentStation) recordDwell(currentStation, dwellSeconds);
+            train.dwellDuration = dwellSeconds * TRAIN_DEFAULT_SPEED;
+            train.dwellRemaining = train.dwellDuration;
           }
 
           // Calculate new path for the NEXT segment
           updateTrainPath(train, line, gameState);
+
+          // Wait here if running too close behind the train ahead
+          if (calls) holdForHeadway(train, line, gameState);
         }
       }
     }
   }
 }
 
+/**
+ * Point a train at the stop after its current one, reversing at the ends of
+ * linear lines
+ */
+function setNextTarget(train: Train, line: MetroLine): void {
+  const stopCount = getTrainStationIds(line, train).length;
+
+  if (line.isLoop) {
+    // Circular movement
+    if (train.direction === 1) {
+      train.targetStationIdx = (train.currentStationIdx + 1) % stopCount;
+    } else {
+      train.targetStationIdx =
+        (train.currentStationIdx - 1 + stopCount) % stopCount;
+    }
+    return;
+  }
+
+  // Linear movement (branch services reverse at the end of their branch)
+  if (train.direction === 1) {
+    if (train.currentStationIdx >= stopCount - 1) {
+      // Reached end, reverse
+      train.direction = -1;
+      train.targetStationIdx = train.currentStationIdx - 1;
+    } else {
+      train.targetStationIdx = train.currentStationIdx + 1;
+    }
+  } else {
+    if (train.currentStationIdx <= 0) {
+      // Reached start, reverse
+      train.direction = 1;
+      train.targetStationIdx = train.currentStationIdx + 1;
+    } else {
+      train.targetStationIdx = train.currentStationIdx - 1;
+    }
+  }
+}
+
+/**
+ * Move a line's trains onto valid indices after its stops or branches were
+ * edited
+ * Trains whose segment survived keep their progress along it; trains whose
+ * segment was split or removed are placed at the next surviving stop.
+ * Trains whose branch was removed fall back to the trunk service.
+ * @param previousLine A copy of the line from before the edit
+ */
+export function remapTrainsAfterRouteChange(
+  line: MetroLine,
+  previousLine: MetroLine,
+  gameState: GameState,
+): void {
+  for (const train of line.trains) {
+    const previousStationIds = getTrainStationIds(previousLine, train);
+    if (train.branchId && !getTrainBranch(line, train)) {
+      delete train.branchId;
+    }
+    const stationIds = getTrainStationIds(line, train);
+
+    const lastOld = previousStationIds.length - 1;
+    const lastNew = stationIds.length - 1;
+
+    // The closing stop of a loop appears twice; keep it at the end it was at
+    const toNewIndex = (oldIdx: number): number => {
+      if (line.isLoop && oldIdx === lastOld && oldIdx > 0) {
+        return stationIds[lastNew] === previousStationIds[oldIdx]
+          ? lastNew
+          : -1;
+      }
+      return stationIds.indexOf(previousStationIds[oldIdx]);
+    };
+
+    const current = toNewIndex(train.currentStationIdx);
+    const target = toNewIndex(train.targetStationIdx);
+
+    if (current !== -1 && target !== -1 && Math.abs(current - target) === 1) {
+      // Still running between the same two stops
+      train.currentStationIdx = current;
+      train.targetStationIdx = target;
+    } else {
+      // Jump ahead to the stop the train was heading for, or back to the one
+      // it left if that stop was removed
+      let stop = target !== -1 ? target : current;
+      // Off the new route entirely (e.g. on a removed branch) - back up to
+      // the last surviving stop before it
+      for (let i = train.currentStationIdx; stop === -1 && i > 0; i--) {
+        stop = toNewIndex(i - 1);
+      }
+      train.currentStationIdx = Math.min(Math.max(stop, 0), lastNew);
+      train.progress = 0;
+      // Its old block may no longer be on its track; it claims a new one
+      // when it leaves the stop
+      delete train.signalBlock;
+      delete train.atSignal;
+      setNextTarget(train, line);
+    }
+
+    updateTrainPath(train, line, gameState);
+  }
+}
+
 /**
  * Calculate and cache path for a train's next segment
  */
@@ -200,11 +315,12 @@ export function updateTrainPath(
   line: MetroLine,
   gameState: GameState,
 ): void {
+  const stationIds = getTrainStationIds(line, train);
   const idxA = train.currentStationIdx;
   const idxB = train.targetStationIdx;
 
-  const fromId = line.stationIds[idxA];
-  const toId = line.stationIds[idxB];
+  const fromId = stationIds[idxA];
+  const toId = stationIds[idxB];
 
   const stationA = gameState.stations.find((s) => s.id === fromId);
   const stationB = gameState.stations.find((s) => s.id === toId);
@@ -234,8 +350,8 @@ export function updateTrainPath(
   const minIdx = Math.min(idxA, idxB);
   const maxIdx = Math.max(idxA, idxB);
 
-  const canonicalFromId = line.stationIds[minIdx];
-  const canonicalToId = line.stationIds[maxIdx];
+  const canonicalFromId = stationIds[minIdx];
+  const canonicalToId = stationIds[maxIdx];
 
   const canonicalFrom = gameState.stations.find(
     (s) => s.id === canonicalFromId,
@@ -243,10 +359,11 @@ export function updateTrainPath(
   const canonicalTo = gameState.stations.find((s) => s.id === canonicalToId)!;
 
   // Determine "next" angle for optimization, matching MetroBuildingScreen logic
-  // We look at the station *after* the segment end to smooth the corner
+  // We look at the station *after* the segment end on the drawn track (the
+  // trunk or branch this segment belongs to) to smooth the corner
   let nextAngle: Direction | null = null;
-  if (maxIdx + 1 < line.stationIds.length) {
-    const nextNextId = line.stationIds[maxIdx + 1];
+  const nextNextId = findNextTrackStop(line, canonicalFromId, canonicalToId);
+  if (nextNextId) {
     const nextNextStation = gameState.stations.find((s) => s.id === nextNextId);
     if (nextNextStation) {
       nextAngle = calculateSnapAngle(canonicalTo, nextNextStation);
@@ -265,6 +382,24 @@ export function updateTrainPath(
   train.totalLength = calculateSegmentLength(segment);
 }
 
+/**
+ * Find the stop drawn after a segment on whichever track path contains it
+ */
+function findNextTrackStop(
+  line: MetroLine,
+  fromId: string,
+  toId: string,
+): string | undefined {
+  for (const path of getLineTrackPaths(line)) {
+    for (let i = 0; i < path.length - 1; i++) {
+      if (path[i] === fromId && path[i + 1] === toId) {
+        return path[i + 2];
+      }
+    }
+  }
+  return undefined;
+}
+
 /**
  * Calculate total length of a segment in grid units
  */
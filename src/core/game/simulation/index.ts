@@ -6,3 +6,11 @@ export * from "./Economics";
 export * from "./TrainMovement";
 export * from "./PassengerMovement";
 export * from "./PassengerSpawner";
+export * from "./DemandModel";
+export * from "./DemandCalendar";
+export * from "./PassengerRouting";
+export * from "./StationCrowding";
+export * from "./Headway";
+export * from "./Signalling";
+export * from "./StatisticsTracker";
+export * from "./SimulationEngine";
@@ -20,14 +20,29 @@ export {
   normalizeAngle,
   calculateSnapAngle,
   calculateSegmentPath,
+  type RouteLeg,
+  type Itinerary,
+  type RoutingOptions,
+  findItinerary,
+  findRoute,
+  getItineraryWaypoints,
+  NetworkGraph,
 } from "./game/pathfinding";
 
 // Simulation
 export {
   formatMoney,
   calculateLineLength,
+  calculateLineCost,
+  type LineCostBreakdown,
   deductStationCost,
   deductLineCost,
+  refundStationCost,
+  refundLineCost,
+  chargeLineEditCost,
+  canAfford,
+  deductTrainPurchase,
+  refundTrainPurchase,
   deductTrainRunningCost,
   addTicketRevenue,
 } from "./game/simulation/Economics";
@@ -36,13 +51,55 @@ export {
   updateTrains,
   calculateSegmentLength,
   updateTrainPath,
+  remapTrainsAfterRouteChange,
 } from "./game/simulation/TrainMovement";
 export { updatePassengerSpawning } from "./game/simulation/PassengerSpawner";
+export {
+  DemandModel,
+  tripChance,
+  type DemandMatrix,
+  type CurrentDemand,
+  type UnservedDemand,
+} from "./game/simulation/DemandModel";
+export {
+  getDayType,
+  getDemandProfile,
+  getDemandBand,
+  getDemandConditions,
+  getBandMultiplier,
+  getBandHours,
+  type DemandBand,
+  type DayType,
+  type DemandWindow,
+  type DemandProfile,
+  type DemandConditions,
+} from "./game/simulation/DemandCalendar";
 export {
   updatePassengerMovement,
   handlePassengerBoarding,
   handlePassengerAlighting,
+  getDwellSeconds,
 } from "./game/simulation/PassengerMovement";
+export {
+  assignItinerary,
+  dropPassenger,
+  reroutePassengers,
+  type DroppedPassenger,
+  type RerouteResult,
+} from "./game/simulation/PassengerRouting";
+export {
+  updatePassengerPatience,
+  updateStationCrowding,
+  getStationOverflow,
+  getOvercrowdingProgress,
+} from "./game/simulation/StationCrowding";
+export {
+  StatisticsTracker,
+  summarizeStatistics,
+  type StatisticsSummary,
+  type StatisticsWindow,
+} from "./game/simulation/StatisticsTracker";
+export { SimulationEngine } from "./game/simulation/SimulationEngine";
 
 // Managers
 export {
@@ -51,6 +108,8 @@ export {
   TrainManager,
   type ValidationResult,
   type BuildingLine,
+  type LineEnd,
+  type LineCostPreview,
 } from "./game/managers";
 
 // Controller
@@ -58,6 +117,7 @@ export {
   GameController,
   type StateChangeListener,
 } from "./game/GameController";
+export { CommandHistory, type HistoryEntry } from "./game/CommandHistory";
 
 // Map Generator
 export { MapGenerator } from "./game/MapGenerator";
@@ -11,6 +11,7 @@ import type { Vector2 } from "./types";
  */
 export type InputEventType =
   | "click"
+  | "hover" // Pointer moved with no button pressed
   | "drag_start"
   | "drag_move"
   | "drag_end"
@@ -19,15 +19,30 @@ export interface Vector2 {
 export type GameActionType =
   | "PLACE_STATION"
   | "REMOVE_STATION"
+  | "MOVE_STATION"
+  | "RENAME_STATION"
   | "START_LINE"
   | "ADD_STATION_TO_LINE"
   | "COMPLETE_LINE"
   | "CANCEL_LINE"
+  | "DELETE_LINE"
+  | "EXTEND_LINE"
+  | "INSERT_STATION_IN_LINE"
+  | "REMOVE_STATION_FROM_LINE"
+  | "ADD_BRANCH"
+  | "REMOVE_BRANCH"
+  | "TOGGLE_EXPRESS_STOP"
   | "ADD_TRAIN"
   | "REMOVE_TRAIN"
+  | "SET_TRAIN_COUNT"
   | "PAUSE"
   | "RESUME"
-  | "SET_SPEED";
+  | "SET_SPEED"
+  | "RESET_GAME"
+  | "RESTORE_STATION"
+  | "RESTORE_LINE"
+  | "UNDO"
+  | "REDO";
 
 export interface GameAction {
   type: GameActionType;
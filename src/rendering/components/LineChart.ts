@@ -0,0 +1,138 @@
+/**
+ * Simple time-series line chart drawn with Graphics
+ * Supports several series sharing one value axis
+ */
+
+import { Container, Graphics } from "pixi.js";
+import { Label } from "./Label";
+
+export interface ChartSeries {
+  color: number;
+  values: number[];
+}
+
+const defaultChartOptions = {
+  title: "",
+  width: 400,
+  height: 200,
+  backgroundColor: 0x34495e,
+  axisColor: 0x7f8c8d,
+  formatValue: (value: number): string => value.toFixed(0),
+};
+
+export type LineChartOptions = typeof defaultChartOptions;
+
+/**
+ * A titled chart that plots evenly spaced values, oldest on the left
+ */
+export class LineChart extends Container {
+  private opts: LineChartOptions;
+  private graphics: Graphics;
+  private titleLabel: Label;
+  private maxLabel: Label;
+  private minLabel: Label;
+  private emptyLabel: Label;
+
+  constructor(options: Partial<LineChartOptions> = {}) {
+    super();
+    this.opts = { ...defaultChartOptions, ...options };
+
+    this.graphics = new Graphics();
+    this.addChild(this.graphics);
+
+    this.titleLabel = new Label({
+      text: this.opts.title,
+      style: { fill: 0xffffff, fontSize: 14, fontWeight: "bold" },
+    });
+    this.titleLabel.anchor.set(0, 0);
+    this.titleLabel.position.set(8, 6);
+    this.addChild(this.titleLabel);
+
+    const axisStyle = { fill: 0xbdc3c7, fontSize: 11 };
+
+    this.maxLabel = new Label({ text: "", style: axisStyle });
+    this.maxLabel.anchor.set(1, 0);
+    this.maxLabel.position.set(this.opts.width - 8, 6);
+    this.addChild(this.maxLabel);
+
+    this.minLabel = new Label({ text: "", style: axisStyle });
+    this.minLabel.anchor.set(1, 1);
+    this.minLabel.position.set(this.opts.width - 8, this.opts.height - 4);
+    this.addChild(this.minLabel);
+
+    this.emptyLabel = new Label({
+      text: "No data yet",
+      style: { fill: 0x95a5a6, fontSize: 13, fontStyle: "italic" },
+    });
+    this.emptyLabel.position.set(this.opts.width / 2, this.opts.height / 2);
+    this.addChild(this.emptyLabel);
+
+    this.setSeries([]);
+  }
+
+  /**
+   * Replace the plotted data and redraw
+   */
+  public setSeries(series: ChartSeries[]): void {
+    const { width, height, backgroundColor, axisColor, formatValue } =
+      this.opts;
+
+    // Plot area, leaving room for the title above
+    const left = 8;
+    const top = 28;
+    const plotWidth = width - left * 2;
+    const plotHeight = height - top - 18;
+
+    this.graphics.clear();
+    this.graphics.roundRect(0, 0, width, height, 6);
+    this.graphics.fill(backgroundColor);
+
+    this.graphics.moveTo(left, top + plotHeight);
+    this.graphics.lineTo(left + plotWidth, top + plotHeight);
+    this.graphics.stroke({ width: 1, color: axisColor });
+
+    const allValues = series.flatMap((s) => s.values);
+    const hasData = allValues.length > 0;
+    this.emptyLabel.visible = !hasData;
+    this.maxLabel.visible = hasData;
+    this.minLabel.visible = hasData;
+    if (!hasData) return;
+
+    // Always include zero so money going negative stays readable
+    const min = Math.min(0, ...allValues);
+    const max = Math.max(...allValues);
+    const range = max - min || 1;
+    this.maxLabel.text = formatValue(max);
+    this.minLabel.text = formatValue(min);
+
+    const toY = (value: number) =>
+      top + plotHeight - ((value - min) / range) * plotHeight;
+
+    if (min < 0) {
+      this.graphics.moveTo(left, toY(0));
+      this.graphics.lineTo(left + plotWidth, toY(0));
+      this.graphics.stroke({ width: 1, color: axisColor, alpha: 0.5 });
+    }
+
+    for (const { color, values } of series) {
+      if (values.length === 0) continue;
+
+      const step = values.length > 1 ? plotWidth / (values.length - 1) : 0;
+      values.forEach((value, i) => {
+        const x = left + i * step;
+        if (i === 0) {
+          this.graphics.moveTo(x, toY(value));
+        } else {
+          this.graphics.lineTo(x, toY(value));
+        }
+      });
+
+      if (values.length === 1) {
+        this.graphics.circle(left, toY(values[0]), 2);
+        this.graphics.fill(color);
+      } else {
+        this.graphics.stroke({ width: 2, color });
+      }
+    }
+  }
+}
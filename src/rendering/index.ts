@@ -4,3 +4,4 @@
 
 export * from "./pixi/PixiMapRenderer";
 export * from "./pixi/PixiMetroRenderer";
+export * from "./pixi/PixiInputHandler";
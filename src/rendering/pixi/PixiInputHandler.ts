@@ -0,0 +1,162 @@
+/**
+ * Pixi Input Handler for MetroMap.io
+ * Turns Pixi pointer events on the map into platform-neutral input events:
+ * clicks, hovers and drags, with the grid vertex under the pointer.
+ * Keyboard shortcuts stay with the screens.
+ */
+
+import type { Container, FederatedPointerEvent } from "pixi.js";
+import type {
+  IInputHandler,
+  InputCallback,
+  InputEvent,
+  InputEventType,
+} from "@core/interfaces/IInputHandler";
+import type { Vector2 } from "@core/interfaces/types";
+import { TILE_SIZE } from "@core/game/config";
+
+const DRAG_THRESHOLD_PX = 4; // Pointer travel before a press becomes a drag
+
+export class PixiInputHandler implements IInputHandler {
+  private subscribers = new Set<InputCallback>();
+  private enabled = false;
+
+  // Press in progress: where it started, and whether it has become a drag
+  private pressStart: Vector2 | null = null;
+  private isDragging = false;
+
+  /**
+   * @param target - Container that receives the pointer events
+   * @param grid - Container whose local coordinates are grid pixels (vertex = position / TILE_SIZE)
+   */
+  constructor(
+    private target: Container,
+    private grid: Container,
+  ) {}
+
+  public subscribe(callback: InputCallback): () => void {
+    this.subscribers.add(callback);
+    return () => this.subscribers.delete(callback);
+  }
+
+  public enable(): void {
+    if (this.enabled) return;
+    this.enabled = true;
+
+    this.target.eventMode = "static";
+    this.target.on("pointerdown", this.onPointerDown);
+    this.target.on("pointermove", this.onPointerMove);
+    this.target.on("globalpointermove", this.onGlobalPointerMove);
+    this.target.on("pointerup", this.onPointerUp);
+    this.target.on("pointerupoutside", this.onPointerUp);
+  }
+
+  public disable(): void {
+    if (!this.enabled) return;
+    this.enabled = false;
+
+    this.target.off("pointerdown", this.onPointerDown);
+    this.target.off("pointermove", this.onPointerMove);
+    this.target.off("globalpointermove", this.onGlobalPointerMove);
+    this.target.off("pointerup", this.onPointerUp);
+    this.target.off("pointerupoutside", this.onPointerUp);
+    this.pressStart = null;
+    this.isDragging = false;
+  }
+
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  public clearSubscribers(): void {
+    this.subscribers.clear();
+  }
+
+  public dispose(): void {
+    this.disable();
+    this.clearSubscribers();
+  }
+
+  private onPointerDown = (event: FederatedPointerEvent): void => {
+    if (event.button !== 0) return;
+    this.pressStart = { x: event.global.x, y: event.global.y };
+    this.isDragging = false;
+  };
+
+  /**
+   * Pointer moving over the target with no press in progress
+   */
+  private onPointerMove = (event: FederatedPointerEvent): void => {
+    if (this.pressStart) return;
+    this.emit("hover", event);
+  };
+
+  /**
+   * Pointer moving anywhere; drags keep tracking after leaving the target
+   */
+  private onGlobalPointerMove = (event: FederatedPointerEvent): void => {
+    const start = this.pressStart;
+    if (!start) return;
+
+    if (!this.isDragging) {
+      const dx = event.global.x - start.x;
+      const dy = event.global.y - start.y;
+      if (Math.sqrt(dx * dx + dy * dy) < DRAG_THRESHOLD_PX) return;
+
+      // The drag starts where the press did, not where it was detected
+      this.isDragging = true;
+      this.emit("drag_start", event, start);
+    }
+
+    this.emit("drag_move", event);
+  };
+
+  private onPointerUp = (event: FederatedPointerEvent): void => {
+    if (!this.pressStart) return;
+
+    if (this.isDragging) {
+      this.emit("drag_end", event);
+    } else {
+      this.emit("click", event);
+    }
+    this.pressStart = null;
+    this.isDragging = false;
+  };
+
+  /**
+   * Build an input event for the pointer and send it to every subscriber
+   * @param at - Position to report instead of the pointer's (drag_start uses the press position)
+   */
+  private emit(
+    type: InputEventType,
+    event: FederatedPointerEvent,
+    at?: Vector2,
+  ): void {
+    const position = at ?? { x: event.global.x, y: event.global.y };
+    const local = this.grid.toLocal(position);
+
+    const input: InputEvent = {
+      type,
+      position,
+      vertex: {
+        x: Math.round(local.x / TILE_SIZE),
+        y: Math.round(local.y / TILE_SIZE),
+      },
+      shift: event.shiftKey,
+      ctrl: event.ctrlKey || event.metaKey,
+      alt: event.altKey,
+    };
+
+    if (this.pressStart && type.startsWith("drag")) {
+      input.startPosition = this.pressStart;
+      input.delta = {
+        x: position.x - this.pressStart.x,
+        y: position.y - this.pressStart.y,
+      };
+    }
+
+    for (const callback of this.subscribers) {
+      callback(input);
+    }
+  }
+}
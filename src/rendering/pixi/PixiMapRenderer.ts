@@ -6,11 +6,12 @@
 
 import { Container, Graphics } from "pixi.js";
 import type { MapGrid } from "@core/game/models/MapGrid";
-import { MAP_WIDTH, MAP_HEIGHT, TILE_SIZE } from "@core/game/config";
+import { TILE_SIZE } from "@core/game/config";
 
 // Visual constants
 const WATER_COLOR = 0x4a90e2;
 const LAND_COLOR = 0xe8e8e8;
+const MOUNTAIN_COLOR = 0x8d7b68;
 const GRID_LINE_COLOR = 0xd0d0d0;
 const GRID_LINE_ALPHA = 0.3;
 
@@ -69,8 +70,9 @@ export class PixiMapRenderer extends Container {
     this.gridGraphics.clear();
 
     // Draw each tile based on visualization mode
-    for (let y = 0; y < MAP_HEIGHT; y++) {
-      for (let x = 0; x < MAP_WIDTH; x++) {
+    const { width, height } = this.currentMap;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
         const square = this.currentMap.squares[y][x];
         const px = x * TILE_SIZE;
         const py = y * TILE_SIZE;
@@ -79,6 +81,10 @@ export class PixiMapRenderer extends Container {
           // Water tiles are always blue
           this.mapGraphics.rect(px, py, TILE_SIZE, TILE_SIZE);
           this.mapGraphics.fill(WATER_COLOR);
+        } else if (square.type === "MOUNTAIN") {
+          // Mountain tiles have no density to show
+          this.mapGraphics.rect(px, py, TILE_SIZE, TILE_SIZE);
+          this.mapGraphics.fill(MOUNTAIN_COLOR);
         } else if (this.visualizationMode === "BOTH") {
           // Split tile diagonally: top-left = residential (green), bottom-right = office (red)
           const resColor = this.getResidentialColor(square.homeDensity);
@@ -116,7 +122,7 @@ export class PixiMapRenderer extends Container {
     }
 
     // Draw grid lines
-    this.drawGridLines();
+    this.drawGridLines(width, height);
   }
 
   /**
@@ -160,7 +166,7 @@ export class PixiMapRenderer extends Container {
   /**
    * Draw grid lines overlay
    */
-  private drawGridLines(): void {
+  private drawGridLines(width: number, height: number): void {
     this.gridGraphics.setStrokeStyle({
       width: 1,
       color: GRID_LINE_COLOR,
@@ -168,32 +174,32 @@ export class PixiMapRenderer extends Container {
     });
 
     // Vertical lines
-    for (let x = 0; x <= MAP_WIDTH; x++) {
+    for (let x = 0; x <= width; x++) {
       this.gridGraphics.moveTo(x * TILE_SIZE, 0);
-      this.gridGraphics.lineTo(x * TILE_SIZE, MAP_HEIGHT * TILE_SIZE);
+      this.gridGraphics.lineTo(x * TILE_SIZE, height * TILE_SIZE);
     }
 
     // Horizontal lines
-    for (let y = 0; y <= MAP_HEIGHT; y++) {
+    for (let y = 0; y <= height; y++) {
       this.gridGraphics.moveTo(0, y * TILE_SIZE);
-      this.gridGraphics.lineTo(MAP_WIDTH * TILE_SIZE, y * TILE_SIZE);
+      this.gridGraphics.lineTo(width * TILE_SIZE, y * TILE_SIZE);
     }
 
     this.gridGraphics.stroke();
   }
 
   /**
-   * Get the total width of the rendered map
+   * Get the total width of the rendered map (0 before a map is rendered)
    */
   public getMapWidth(): number {
-    return MAP_WIDTH * TILE_SIZE;
+    return (this.currentMap?.width ?? 0) * TILE_SIZE;
   }
 
   /**
-   * Get the total height of the rendered map
+   * Get the total height of the rendered map (0 before a map is rendered)
    */
   public getMapHeight(): number {
-    return MAP_HEIGHT * TILE_SIZE;
+    return (this.currentMap?.height ?? 0) * TILE_SIZE;
   }
 
   /**
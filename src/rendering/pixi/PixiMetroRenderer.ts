@@ -6,7 +6,7 @@
 
 import { Container, Graphics, Text, TextStyle } from "pixi.js";
 import type { MetroLine } from "@core/game/models/MetroLine";
-import { LINE_COLOR_HEX } from "@core/game/models/MetroLine";
+import { getLineTrackPaths, LINE_COLOR_HEX } from "@core/game/models/MetroLine";
 import type { Station } from "@core/game/models/Station";
 import type { Train } from "@core/game/models/Train";
 import {
@@ -20,6 +20,11 @@ import {
   type Waypoint,
 } from "@core/game/pathfinding/LinePath";
 import { TILE_SIZE } from "@core/game/config";
+import {
+  getStationOverflow,
+  getOvercrowdingProgress,
+} from "@core/game/simulation/StationCrowding";
+import type { UnservedDemand } from "@core/game/simulation/DemandModel";
 
 // Visual constants
 export { TILE_SIZE };
@@ -27,9 +32,14 @@ export const STATION_RADIUS = TILE_SIZE * 0.5;
 export const STATION_COLOR = 0xffffff;
 export const STATION_BORDER_COLOR = 0x000000;
 export const STATION_BORDER_WIDTH = 2;
+export const EXPRESS_STOP_COLOR = 0xf1c40f;
 export const LINE_WIDTH = 4;
 export const LINE_OFFSET = 4; // Offset for parallel lines
 export const TRAIN_HEIGHT = 8;
+export const OVERCROWDED_COLOR = 0xe74c3c;
+export const OVERCROWDED_RING_WIDTH = 3;
+export const UNSERVED_DEMAND_COLOR = 0xff00ff;
+export const UNSERVED_DEMAND_MAX_WIDTH = 4;
 
 /**
  * Information about lines sharing a segment
@@ -41,8 +51,11 @@ interface SegmentSharingInfo {
 
 export class PixiMetroRenderer extends Container {
   public linesLayer: Graphics;
+  public previewLayer: Graphics;
+  public demandLayer: Graphics;
   public trainsLayer: Graphics;
   public stationsLayer: Graphics;
+  public crowdingLayer: Graphics;
   public labelsLayer: Container;
   public stationHitAreasLayer: Container;
 
@@ -58,12 +71,21 @@ export class PixiMetroRenderer extends Container {
     this.linesLayer = new Graphics();
     this.addChild(this.linesLayer);
 
+    this.previewLayer = new Graphics();
+    this.addChild(this.previewLayer);
+
+    this.demandLayer = new Graphics();
+    this.addChild(this.demandLayer);
+
     this.trainsLayer = new Graphics();
     this.addChild(this.trainsLayer);
 
     this.stationsLayer = new Graphics();
     this.addChild(this.stationsLayer);
 
+    this.crowdingLayer = new Graphics();
+    this.addChild(this.crowdingLayer);
+
     this.labelsLayer = new Container();
     this.addChild(this.labelsLayer);
 
@@ -74,8 +96,12 @@ export class PixiMetroRenderer extends Container {
 
   /**
    * Render all stations
+   * @param expressStationIds - Stops to fill in as express stops (while marking them)
    */
-  public renderStations(stations: Station[]): void {
+  public renderStations(
+    stations: Station[],
+    expressStationIds: readonly string[] = [],
+  ): void {
     this.stationsLayer.clear();
 
     for (const station of stations) {
@@ -84,7 +110,11 @@ export class PixiMetroRenderer extends Container {
 
       // Draw station circle
       this.stationsLayer.circle(px, py, STATION_RADIUS);
-      this.stationsLayer.fill(STATION_COLOR);
+      this.stationsLayer.fill(
+        expressStationIds.includes(station.id)
+          ? EXPRESS_STOP_COLOR
+          : STATION_COLOR,
+      );
 
       // Draw border
       this.stationsLayer.circle(px, py, STATION_RADIUS);
@@ -211,7 +241,11 @@ export class PixiMetroRenderer extends Container {
           this.stationPassengerCountCache.set(station.id, label);
         }
 
-        label.text = count.toString();
+        // Overcrowded stations show the overflow in red, e.g. "20+4"
+        const overflow = getStationOverflow(station);
+        label.text =
+          overflow > 0 ? `${count - overflow}+${overflow}` : count.toString();
+        label.style.fill = overflow > 0 ? OVERCROWDED_COLOR : 0xffffff;
         label.x = station.vertexX * TILE_SIZE;
         label.y = station.vertexY * TILE_SIZE - STATION_RADIUS - 2;
         label.visible = true;
@@ -223,6 +257,87 @@ export class PixiMetroRenderer extends Container {
     }
   }
 
+  /**
+   * Draw a ring around overcrowded stations that fills up as the station
+   * approaches failure
+   * @param stations - List of all stations
+   * @param currentTime - Current game time in ms
+   */
+  public renderStationCrowding(stations: Station[], currentTime: number): void {
+    this.crowdingLayer.clear();
+
+    for (const station of stations) {
+      if (getStationOverflow(station) === 0) continue;
+
+      const px = station.vertexX * TILE_SIZE;
+      const py = station.vertexY * TILE_SIZE;
+      const radius = STATION_RADIUS + OVERCROWDED_RING_WIDTH;
+      const progress = getOvercrowdingProgress(station, currentTime);
+
+      // Faint full ring, with the elapsed part of the grace period on top
+      this.crowdingLayer.circle(px, py, radius);
+      this.crowdingLayer.stroke({
+        width: OVERCROWDED_RING_WIDTH,
+        color: OVERCROWDED_COLOR,
+        alpha: 0.3,
+      });
+
+      if (progress > 0) {
+        const start = -Math.PI / 2;
+        this.crowdingLayer.moveTo(
+          px + Math.cos(start) * radius,
+          py + Math.sin(start) * radius,
+        );
+        this.crowdingLayer.arc(
+          px,
+          py,
+          radius,
+          start,
+          start + progress * Math.PI * 2,
+        );
+        this.crowdingLayer.stroke({
+          width: OVERCROWDED_RING_WIDTH,
+          color: OVERCROWDED_COLOR,
+        });
+      }
+    }
+  }
+
+  /**
+   * Draw a straight link between each station pair that has demand but no
+   * route; busier pairs are drawn thicker and more opaque
+   * @param unserved - Unserved pairs, busiest first (empty to hide the overlay)
+   * @param stations - List of all stations (needed for positioning)
+   */
+  public renderDemandOverlay(
+    unserved: UnservedDemand[],
+    stations: Station[],
+  ): void {
+    this.demandLayer.clear();
+    if (unserved.length === 0) return;
+
+    const stationMap = new Map(stations.map((s) => [s.id, s]));
+    const busiest = unserved[0].tripsPerHour;
+
+    for (const pair of unserved) {
+      const from = stationMap.get(pair.originId);
+      const to = stationMap.get(pair.destinationId);
+      if (!from || !to) continue;
+
+      const strength = busiest > 0 ? pair.tripsPerHour / busiest : 0;
+      this.demandLayer.moveTo(
+        from.vertexX * TILE_SIZE,
+        from.vertexY * TILE_SIZE,
+      );
+      this.demandLayer.lineTo(to.vertexX * TILE_SIZE, to.vertexY * TILE_SIZE);
+      this.demandLayer.stroke({
+        width: 1 + strength * (UNSERVED_DEMAND_MAX_WIDTH - 1),
+        color: UNSERVED_DEMAND_COLOR,
+        alpha: 0.15 + strength * 0.6,
+      });
+    }
+  }
+
   /**
    * Render metro lines
    * @param lines - List of completed lines
@@ -250,6 +365,57 @@ export class PixiMetroRenderer extends Container {
     }
   }
 
+  /**
+   * Preview the segment being dragged out from a station
+   * @param from - Station the drag started at
+   * @param to - Station the pointer has snapped to; draws the track path to it
+   * @param pointer - Grid vertex under the pointer, used when nothing is snapped
+   * @param color - Line color
+   */
+  public renderDragPreview(
+    from: Station,
+    to: Station | null,
+    pointer: { x: number; y: number },
+    color: number,
+  ): void {
+    this.previewLayer.clear();
+
+    if (!to) {
+      // Nothing to connect to yet: a faint straight guide to the pointer
+      this.previewLayer.moveTo(
+        from.vertexX * TILE_SIZE,
+        from.vertexY * TILE_SIZE,
+      );
+      this.previewLayer.lineTo(pointer.x * TILE_SIZE, pointer.y * TILE_SIZE);
+      this.previewLayer.stroke({ width: LINE_WIDTH / 2, color, alpha: 0.4 });
+      return;
+    }
+
+    const segment = calculateSegmentPath(from, to, null);
+    this.renderSegmentsToCanvas(
+      this.previewLayer,
+      [segment],
+      [{ offsetX: 0, offsetY: 0 }],
+      color,
+      true,
+    );
+
+    // Ring the station the segment will connect to
+    this.previewLayer.circle(
+      to.vertexX * TILE_SIZE,
+      to.vertexY * TILE_SIZE,
+      STATION_RADIUS * 1.5,
+    );
+    this.previewLayer.stroke({ width: 2, color });
+  }
+
+  /**
+   * Remove the drag preview
+   */
+  public clearDragPreview(): void {
+    this.previewLayer.clear();
+  }
+
   /**
    * Render trains
    */
@@ -372,10 +538,10 @@ export class PixiMetroRenderer extends Container {
   ): Map<string, SegmentSharingInfo> {
     const segmentMap = new Map<string, SegmentSharingInfo>();
 
-    const processLine = (line: MetroLine, lineIndex: number) => {
-      for (let i = 0; i < line.stationIds.length - 1; i++) {
-        const fromId = line.stationIds[i];
-        const toId = line.stationIds[i + 1];
+    const processPath = (stationIds: string[], lineIndex: number) => {
+      for (let i = 0; i < stationIds.length - 1; i++) {
+        const fromId = stationIds[i];
+        const toId = stationIds[i + 1];
         const key = createSegmentKey(fromId, toId);
 
         if (!segmentMap.has(key)) {
@@ -398,6 +564,13 @@ export class PixiMetroRenderer extends Container {
       }
     };
 
+    // Branches share their line's index, so they offset like the trunk
+    const processLine = (line: MetroLine, lineIndex: number) => {
+      for (const stationIds of getLineTrackPaths(line)) {
+        processPath(stationIds, lineIndex);
+      }
+    };
+
     // Process all completed lines
     lines.forEach((line, index) => processLine(line, index));
 
@@ -410,7 +583,7 @@ export class PixiMetroRenderer extends Container {
   }
 
   /**
-   * Draw a single metro line
+   * Draw a single metro line: its trunk and every branch, in the line's color
    */
   private drawLine(
     line: MetroLine,
@@ -419,12 +592,35 @@ export class PixiMetroRenderer extends Container {
     segmentMap: Map<string, SegmentSharingInfo>,
     isTemp: boolean,
   ): void {
-    if (line.stationIds.length < 2) return;
-
     const color = LINE_COLOR_HEX[line.color];
 
+    for (const stationIds of getLineTrackPaths(line)) {
+      this.drawTrackPath(
+        stationIds,
+        color,
+        stations,
+        lineIndex,
+        segmentMap,
+        isTemp,
+      );
+    }
+  }
+
+  /**
+   * Draw one continuous run of a line's track (the trunk or a branch)
+   */
+  private drawTrackPath(
+    stationIds: string[],
+    color: number,
+    stations: Station[],
+    lineIndex: number,
+    segmentMap: Map<string, SegmentSharingInfo>,
+    isTemp: boolean,
+  ): void {
+    if (stationIds.length < 2) return;
+
     // Get station objects (filter out any missing ones)
-    const lineStations = line.stationIds
+    const lineStations = stationIds
       .map((id) => stations.find((s) => s.id === id))
       .filter((s): s is Station => s !== undefined);
 
@@ -484,13 +680,20 @@ export class PixiMetroRenderer extends Container {
       segmentOffsets.push({ offsetX, offsetY });
     }
 
-    this.renderSegmentsToCanvas(segments, segmentOffsets, color, isTemp);
+    this.renderSegmentsToCanvas(
+      this.linesLayer,
+      segments,
+      segmentOffsets,
+      color,
+      isTemp,
+    );
   }
 
   /**
    * Render line segments to canvas with bezier curves at bends
    */
   private renderSegmentsToCanvas(
+    layer: Graphics,
     segments: LineSegment[],
     segmentOffsets: { offsetX: number; offsetY: number }[],
     color: number,
@@ -503,7 +706,7 @@ export class PixiMetroRenderer extends Container {
 
     // Start at first waypoint with offset
     const firstOffset = segmentOffsets[0] || { offsetX: 0, offsetY: 0 };
-    this.linesLayer.moveTo(
+    layer.moveTo(
       (segments[0].waypoints[0].x + firstOffset.offsetX) * TILE_SIZE,
       (segments[0].waypoints[0].y + firstOffset.offsetY) * TILE_SIZE,
     );
@@ -533,12 +736,12 @@ export class PixiMetroRenderer extends Container {
             tightness,
           );
 
-          this.linesLayer.lineTo(
+          layer.lineTo(
             (curve.start.x + offset.offsetX) * TILE_SIZE,
             (curve.start.y + offset.offsetY) * TILE_SIZE,
           );
 
-          this.linesLayer.bezierCurveTo(
+          layer.bezierCurveTo(
             (curve.control1.x + offset.offsetX) * TILE_SIZE,
             (curve.control1.y + offset.offsetY) * TILE_SIZE,
             (curve.control2.x + offset.offsetX) * TILE_SIZE,
@@ -547,12 +750,12 @@ export class PixiMetroRenderer extends Container {
             (curve.end.y + offset.offsetY) * TILE_SIZE,
           );
         } else {
-          this.linesLayer.lineTo(nextX, nextY);
+          layer.lineTo(nextX, nextY);
         }
       }
     }
 
-    this.linesLayer.stroke({
+    layer.stroke({
       width: LINE_WIDTH,
       color: color,
       alpha: isTemp ? 0.6 : 1.0,
@@ -0,0 +1,395 @@
+/**
+ * Line Detail Popup
+ * Shows each train's spacing on a line: the target headway of every service
+ * and how far each train is running ahead of or behind it
+ */
+
+import { Container, Graphics, Sprite, Texture, Ticker } from "pixi.js";
+import type { GameState } from "@core/game/models/GameState";
+import type { MetroLine } from "@core/game/models/MetroLine";
+import {
+  LINE_COLOR_HEX,
+  STOP_PATTERN_NAMES,
+  getServiceStationIds,
+} from "@core/game/models/MetroLine";
+import {
+  getLineHeadways,
+  type ServiceHeadway,
+} from "@core/game/simulation/Headway";
+import { BASE_GAME_SPEED, HEADWAY_HOLD_TOLERANCE } from "@core/game/config";
+import { Label } from "@rendering/components/Label";
+import { RoundedBox } from "@rendering/components/RoundedBox";
+import { FlatButton } from "@rendering/components/FlatButton";
+import { engine } from "@app/getEngine";
+
+const HOUR_MS = 60 * 60 * 1000;
+const REFRESH_INTERVAL_MS = 500; // Real time between table redraws
+const TABLE_WIDTH = 540;
+const ROW_HEIGHT = 28;
+const MAX_ROWS = 11; // Rows that fit on the panel, service headers included
+
+// Table columns: left edge offset and header text
+const COLUMNS = [
+  { x: 10, text: "Train" },
+  { x: 110, text: "Heading to" },
+  { x: 290, text: "Gap" },
+  { x: 370, text: "Deviation" },
+  { x: 465, text: "Status" },
+];
+
+// Store the game state to display (set before showing popup)
+let currentState: GameState | null = null;
+let currentLineIndex = 0;
+
+export function setLinesForPopup(state: GameState, lineIndex = 0): void {
+  currentState = state;
+  currentLineIndex = lineIndex;
+}
+
+export class LineDetailPopup extends Container {
+  private bg: Sprite;
+  private panel: Container;
+  private panelBase: RoundedBox;
+  private title: Label;
+  private colorSwatch: Graphics;
+  private prevButton: FlatButton;
+  private nextButton: FlatButton;
+  private closeButton: FlatButton;
+  private tableContainer: Container;
+
+  private state: GameState;
+  private lineIndex: number;
+  private sinceRefreshMs: number = 0;
+
+  constructor() {
+    super();
+
+    // Get game state from global reference
+    if (!currentState) {
+      throw new Error("Game state not set for popup");
+    }
+    this.state = currentState;
+    this.lineIndex = currentLineIndex;
+
+    // Semi-transparent background
+    this.bg = new Sprite(Texture.WHITE);
+    this.bg.tint = 0x000000;
+    this.bg.alpha = 0.7;
+    this.bg.interactive = true;
+    this.bg.on("pointertap", () => this.close());
+    this.addChild(this.bg);
+
+    // Panel container
+    this.panel = new Container();
+    this.addChild(this.panel);
+
+    // Panel background
+    this.panelBase = new RoundedBox({
+      width: 600,
+      height: 520,
+      color: 0x2c3e50,
+    });
+    this.panel.addChild(this.panelBase);
+
+    const top = -this.panelBase.boxHeight * 0.5;
+
+    // Title with the line's color
+    this.title = new Label({
+      text: "",
+      style: {
+        fill: 0xffffff,
+        fontSize: 32,
+        fontWeight: "bold",
+      },
+    });
+    this.title.y = top + 40;
+    this.panel.addChild(this.title);
+
+    this.colorSwatch = new Graphics();
+    this.colorSwatch.y = top + 40;
+    this.panel.addChild(this.colorSwatch);
+
+    // Line selector
+    this.prevButton = new FlatButton({
+      text: "<",
+      width: 44,
+      height: 40,
+      fontSize: 20,
+      backgroundColor: 0x3498db,
+    });
+    this.prevButton.x = -this.panelBase.boxWidth * 0.5 + 40;
+    this.prevButton.y = top + 40;
+    this.prevButton.onPress.connect(() => this.selectLine(-1));
+    this.panel.addChild(this.prevButton);
+
+    this.nextButton = new FlatButton({
+      text: ">",
+      width: 44,
+      height: 40,
+      fontSize: 20,
+      backgroundColor: 0x3498db,
+    });
+    this.nextButton.x = this.panelBase.boxWidth * 0.5 - 40;
+    this.nextButton.y = top + 40;
+    this.nextButton.onPress.connect(() => this.selectLine(1));
+    this.panel.addChild(this.nextButton);
+
+    // Table container
+    this.tableContainer = new Container();
+    this.tableContainer.x = -TABLE_WIDTH / 2;
+    this.tableContainer.y = top + 85;
+    this.panel.addChild(this.tableContainer);
+
+    // Close button
+    this.closeButton = new FlatButton({
+      text: "Close",
+      width: 120,
+      height: 40,
+      fontSize: 18,
+      backgroundColor: 0x3498db,
+    });
+    this.closeButton.y = this.panelBase.boxHeight * 0.5 - 35;
+    this.closeButton.onPress.connect(() => this.close());
+    this.panel.addChild(this.closeButton);
+
+    this.selectLine(0);
+  }
+
+  /**
+   * Step through the lines
+   * @param delta - Lines to move by (wraps around)
+   */
+  private selectLine(delta: number): void {
+    const count = this.state.lines.length;
+    if (count > 0) {
+      this.lineIndex = (this.lineIndex + delta + count) % count;
+    }
+
+    const canStep = count > 1;
+    this.prevButton.alpha = canStep ? 1.0 : 0.4;
+    this.nextButton.alpha = canStep ? 1.0 : 0.4;
+
+    this.renderTable();
+  }
+
+  /**
+   * Redraw the title and headway table for the selected line
+   */
+  private renderTable(): void {
+    this.tableContainer.removeChildren().forEach((child) => child.destroy());
+    this.colorSwatch.clear();
+
+    const line = this.state.lines[this.lineIndex];
+    if (!line) {
+      this.title.text = "No Lines";
+      return;
+    }
+
+    this.title.text = `${capitalize(line.color)} Line`;
+    this.colorSwatch.circle(-this.title.width / 2 - 22, 0, 10);
+    this.colorSwatch.fill(LINE_COLOR_HEX[line.color]);
+
+    // Header
+    const headerBg = new Graphics();
+    headerBg.rect(0, 0, TABLE_WIDTH, 32);
+    headerBg.fill(0x34495e);
+    this.tableContainer.addChild(headerBg);
+    for (const column of COLUMNS) {
+      this.addCell(column.text, column.x, 16, 0xffffff, true);
+    }
+
+    let rowY = 32;
+    let rows = 0;
+    const headways = getLineHeadways(line, this.state);
+
+    for (const service of headways) {
+      if (rows >= MAX_ROWS) break;
+
+      // Service header: which stops it runs and the interval it aims for
+      this.addCell(
+        `${describeService(service, line, this.state)}  -  every ${formatHours(service.targetHeadway)}`,
+        10,
+        rowY + ROW_HEIGHT / 2,
+        0x95a5a6,
+      );
+      rowY += ROW_HEIGHT;
+      rows++;
+
+      for (const trainHeadway of service.trains) {
+        if (rows >= MAX_ROWS) break;
+
+        const trainIndex = line.trains.findIndex(
+          (t) => t.id === trainHeadway.trainId,
+        );
+        const train = line.trains[trainIndex];
+        const stationIds = getServiceStationIds(line, train.branchId);
+        const target = this.state.stations.find(
+          (s) => s.id === stationIds[train.targetStationIdx],
+        );
+
+        // Alternating row background
+        const rowBg = new Graphics();
+        rowBg.rect(0, rowY, TABLE_WIDTH, ROW_HEIGHT);
+        rowBg.fill(rows % 2 === 0 ? 0x2c3e50 : 0x34495e);
+        this.tableContainer.addChild(rowBg);
+
+        const onTarget =
+          Math.abs(trainHeadway.deviation) <=
+          service.targetHeadway * HEADWAY_HOLD_TOLERANCE;
+        const centerY = rowY + ROW_HEIGHT / 2;
+        this.addCell(`Train ${trainIndex + 1}`, COLUMNS[0].x, centerY);
+        this.addCell(target?.label ?? "-", COLUMNS[1].x, centerY);
+        this.addCell(formatHours(trainHeadway.gapAhead), COLUMNS[2].x, centerY);
+        this.addCell(
+          `${trainHeadway.deviation >= 0 ? "+" : "-"}${formatHours(Math.abs(trainHeadway.deviation))}`,
+          COLUMNS[3].x,
+          centerY,
+          onTarget ? 0x2ecc71 : 0xe67e22,
+        );
+        this.addCell(
+          trainHeadway.isHeld
+            ? "Held"
+            : train.state === "STOPPED"
+              ? "At stop"
+              : train.atSignal
+                ? "At signal"
+                : "Moving",
+          COLUMNS[4].x,
+          centerY,
+          trainHeadway.isHeld || train.atSignal ? 0xf1c40f : 0xecf0f1,
+        );
+
+        rowY += ROW_HEIGHT;
+        rows++;
+      }
+    }
+
+    if (headways.length === 0) {
+      const emptyLabel = new Label({
+        text: "No trains running",
+        style: {
+          fill: 0x7f8c8d,
+          fontSize: 16,
+          fontStyle: "italic",
+        },
+      });
+      emptyLabel.anchor.set(0.5, 0);
+      emptyLabel.position.set(TABLE_WIDTH / 2, rowY + 20);
+      this.tableContainer.addChild(emptyLabel);
+    }
+  }
+
+  /**
+   * Add a left-aligned text cell to the table
+   */
+  private addCell(
+    text: string,
+    x: number,
+    centerY: number,
+    color: number = 0xecf0f1,
+    bold: boolean = false,
+  ): void {
+    const cell = new Label({
+      text,
+      style: {
+        fill: color,
+        fontSize: bold ? 16 : 14,
+        fontWeight: bold ? "bold" : "normal",
+      },
+    });
+    cell.anchor.set(0, 0.5);
+    cell.position.set(x, centerY);
+    this.tableContainer.addChild(cell);
+  }
+
+  /**
+   * Close the popup
+   */
+  private close(): void {
+    engine().navigation.dismissPopup();
+  }
+
+  /**
+   * Called when the popup is shown
+   */
+  public async show(): Promise<void> {
+    this.resize();
+  }
+
+  /**
+   * Refresh the table while the simulation keeps running underneath
+   */
+  public update(time: Ticker): void {
+    this.sinceRefreshMs += time.deltaMS;
+    if (this.sinceRefreshMs < REFRESH_INTERVAL_MS) return;
+
+    this.sinceRefreshMs = 0;
+    this.renderTable();
+  }
+
+  /**
+   * Resize handler
+   */
+  public resize(): void {
+    const width = engine().renderer.width;
+    const height = engine().renderer.height;
+
+    // Background fills the screen
+    this.bg.width = width;
+    this.bg.height = height;
+
+    // Center the panel, shrinking it on small screens
+    this.panel.x = width / 2;
+    this.panel.y = height / 2;
+    this.panel.scale.set(
+      Math.min(
+        1,
+        (width - 40) / this.panelBase.boxWidth,
+        (height - 40) / this.panelBase.boxHeight,
+      ),
+    );
+  }
+}
+
+/**
+ * Name a service by where it runs and how it stops, e.g. "Trunk" or
+ * "Branch to Central (Express)"
+ */
+function describeService(
+  service: ServiceHeadway,
+  line: MetroLine,
+  state: GameState,
+): string {
+  const route = describeRoute(service, line, state);
+  return service.pattern === "ALL_STOPS"
+    ? route
+    : `${route} (${STOP_PATTERN_NAMES[service.pattern]})`;
+}
+
+function describeRoute(
+  service: ServiceHeadway,
+  line: MetroLine,
+  state: GameState,
+): string {
+  if (service.direction !== undefined) {
+    return service.direction === 1 ? "Forward loop" : "Reverse loop";
+  }
+  if (!service.branchId) return "Trunk";
+
+  const stationIds = getServiceStationIds(line, service.branchId);
+  const terminus = state.stations.find(
+    (s) => s.id === stationIds[stationIds.length - 1],
+  );
+  return `Branch to ${terminus?.label ?? "?"}`;
+}
+
+/**
+ * Format simulated seconds (1x) as game hours, e.g. "3.2h"
+ */
+function formatHours(seconds: number): string {
+  return `${((seconds * BASE_GAME_SPEED) / HOUR_MS).toFixed(1)}h`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
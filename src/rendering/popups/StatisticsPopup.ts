@@ -0,0 +1,316 @@
+/**
+ * Statistics Popup
+ * Dashboard of journey, money and per-line KPIs charted over a selectable window
+ */
+
+import { Container, Sprite, Texture, Ticker } from "pixi.js";
+import type { MetroLine } from "@core/game/models/MetroLine";
+import { LINE_COLOR_HEX } from "@core/game/models/MetroLine";
+import {
+  mergeStatisticsBuckets,
+  type StatisticsBucket,
+} from "@core/game/models/Statistics";
+import {
+  summarizeStatistics,
+  type StatisticsTracker,
+  type StatisticsWindow,
+} from "@core/game/simulation/StatisticsTracker";
+import { formatMoney } from "@core/game/simulation/Economics";
+import { Label } from "@rendering/components/Label";
+import { RoundedBox } from "@rendering/components/RoundedBox";
+import { FlatButton } from "@rendering/components/FlatButton";
+import { LineChart, type ChartSeries } from "@rendering/components/LineChart";
+import { engine } from "@app/getEngine";
+
+const HOUR_MS = 60 * 60 * 1000;
+const REFRESH_INTERVAL_MS = 500; // Real time between chart redraws
+
+const WINDOWS: { window: StatisticsWindow; text: string }[] = [
+  { window: "DAY", text: "Last Day" },
+  { window: "WEEK", text: "Last Week" },
+  { window: "ALL", text: "All Time" },
+];
+
+// Store the statistics to display (set before showing popup)
+let currentStatistics: StatisticsTracker | null = null;
+let currentLines: MetroLine[] = [];
+
+export function setStatisticsForPopup(
+  statistics: StatisticsTracker,
+  lines: MetroLine[],
+): void {
+  currentStatistics = statistics;
+  currentLines = lines;
+}
+
+export class StatisticsPopup extends Container {
+  private bg: Sprite;
+  private panel: Container;
+  private panelBase: RoundedBox;
+  private title: Label;
+  private summaryLabel: Label;
+  private closeButton: FlatButton;
+  private windowButtons: Map<StatisticsWindow, FlatButton> = new Map();
+
+  private tripsChart: LineChart;
+  private waitChart: LineChart;
+  private moneyChart: LineChart;
+  private abandonedChart: LineChart;
+  private ridershipChart: LineChart;
+  private loadChart: LineChart;
+
+  private statistics: StatisticsTracker;
+  private lines: MetroLine[];
+  private window: StatisticsWindow = "DAY";
+  private sinceRefreshMs: number = 0;
+
+  constructor() {
+    super();
+
+    // Get statistics from global reference
+    if (!currentStatistics) {
+      throw new Error("Statistics not set for popup");
+    }
+    this.statistics = currentStatistics;
+    this.lines = currentLines;
+
+    // Semi-transparent background
+    this.bg = new Sprite(Texture.WHITE);
+    this.bg.tint = 0x000000;
+    this.bg.alpha = 0.7;
+    this.bg.interactive = true;
+    this.bg.on("pointertap", () => this.close());
+    this.addChild(this.bg);
+
+    // Panel container
+    this.panel = new Container();
+    this.addChild(this.panel);
+
+    // Panel background
+    this.panelBase = new RoundedBox({
+      width: 940,
+      height: 640,
+      color: 0x2c3e50,
+    });
+    this.panel.addChild(this.panelBase);
+
+    const top = -this.panelBase.boxHeight * 0.5;
+
+    // Title
+    this.title = new Label({
+      text: "Network Statistics",
+      style: {
+        fill: 0xffffff,
+        fontSize: 32,
+        fontWeight: "bold",
+      },
+    });
+    this.title.y = top + 40;
+    this.panel.addChild(this.title);
+
+    // Time window selector
+    WINDOWS.forEach(({ window, text }, i) => {
+      const button = new FlatButton({
+        text,
+        width: 120,
+        height: 36,
+        fontSize: 15,
+        backgroundColor: 0x3498db,
+      });
+      button.x = (i - 1) * 130;
+      button.y = top + 90;
+      button.onPress.connect(() => this.setWindow(window));
+      this.panel.addChild(button);
+      this.windowButtons.set(window, button);
+    });
+
+    // Headline KPIs for the selected window
+    this.summaryLabel = new Label({
+      text: "",
+      style: {
+        fill: 0xaaaaaa,
+        fontSize: 16,
+      },
+    });
+    this.summaryLabel.y = top + 132;
+    this.panel.addChild(this.summaryLabel);
+
+    // Charts in a 3 x 2 grid
+    const chartWidth = 290;
+    const chartHeight = 180;
+    const gap = 15;
+    const createChart = (
+      title: string,
+      column: number,
+      row: number,
+      formatValue?: (value: number) => string,
+    ): LineChart => {
+      const chart = new LineChart({
+        title,
+        width: chartWidth,
+        height: chartHeight,
+        ...(formatValue ? { formatValue } : {}),
+      });
+      chart.x = (column - 1.5) * (chartWidth + gap) + gap / 2;
+      chart.y = top + 155 + row * (chartHeight + gap);
+      this.panel.addChild(chart);
+      return chart;
+    };
+
+    this.tripsChart = createChart("Trips Completed", 0, 0);
+    this.waitChart = createChart("Average Wait (hours)", 1, 0, (value) =>
+      (value / HOUR_MS).toFixed(1),
+    );
+    this.moneyChart = createChart(
+      "Money",
+      2,
+      0,
+      (value) => formatMoney(value).text,
+    );
+    this.abandonedChart = createChart("Trips Abandoned", 0, 1);
+    this.ridershipChart = createChart("Boardings per Line", 1, 1);
+    this.loadChart = createChart(
+      "Load Factor per Line",
+      2,
+      1,
+      (value) => `${value.toFixed(0)}%`,
+    );
+
+    // Close button
+    this.closeButton = new FlatButton({
+      text: "Close",
+      width: 120,
+      height: 40,
+      fontSize: 18,
+      backgroundColor: 0x3498db,
+    });
+    this.closeButton.y = this.panelBase.boxHeight * 0.5 - 35;
+    this.closeButton.onPress.connect(() => this.close());
+    this.panel.addChild(this.closeButton);
+
+    this.setWindow(this.window);
+  }
+
+  /**
+   * Select the time window shown by every chart
+   */
+  private setWindow(window: StatisticsWindow): void {
+    this.window = window;
+
+    for (const [buttonWindow, button] of this.windowButtons) {
+      button.alpha = buttonWindow === window ? 1.0 : 0.6;
+    }
+
+    this.renderCharts();
+  }
+
+  /**
+   * Redraw the summary and all charts from the current statistics
+   */
+  private renderCharts(): void {
+    const buckets = this.statistics.getBuckets(this.window);
+
+    // Totals since the start are more accurate than the (truncated) daily history
+    const summary = summarizeStatistics(
+      this.window === "ALL"
+        ? this.statistics.getTotals()
+        : mergeStatisticsBuckets(buckets),
+    );
+    this.summaryLabel.text =
+      `${summary.tripsCompleted} trips  |  ` +
+      `avg trip ${(summary.averageTripTime / HOUR_MS).toFixed(1)}h  |  ` +
+      `avg wait ${(summary.averageWaitTime / HOUR_MS).toFixed(1)}h  |  ` +
+      `${(summary.abandonmentRate * 100).toFixed(0)}% abandoned  |  ` +
+      `profit ${formatMoney(summary.profit).text}`;
+
+    const single = (
+      color: number,
+      value: (bucket: StatisticsBucket) => number,
+    ): ChartSeries[] =>
+      buckets.length > 0 ? [{ color, values: buckets.map(value) }] : [];
+
+    const perLine = (
+      value: (bucket: StatisticsBucket, lineId: string) => number,
+    ): ChartSeries[] =>
+      buckets.length > 0
+        ? this.lines.map((line) => ({
+            color: LINE_COLOR_HEX[line.color],
+            values: buckets.map((bucket) => value(bucket, line.id)),
+          }))
+        : [];
+
+    this.tripsChart.setSeries(
+      single(0x2ecc71, (bucket) => bucket.tripsCompleted),
+    );
+    this.waitChart.setSeries(
+      single(0xf1c40f, (bucket) =>
+        bucket.boardings > 0 ? bucket.totalWaitTime / bucket.boardings : 0,
+      ),
+    );
+    this.moneyChart.setSeries(
+      single(0x3498db, (bucket) => bucket.closingMoney),
+    );
+    this.abandonedChart.setSeries(
+      single(0xe74c3c, (bucket) => bucket.tripsAbandoned),
+    );
+    this.ridershipChart.setSeries(
+      perLine((bucket, lineId) => bucket.boardingsByLine[lineId] ?? 0),
+    );
+    this.loadChart.setSeries(
+      perLine((bucket, lineId) => {
+        const load = bucket.loadByLine[lineId];
+        return load && load.capacityDistance > 0
+          ? (load.passengerDistance / load.capacityDistance) * 100
+          : 0;
+      }),
+    );
+  }
+
+  /**
+   * Close the popup
+   */
+  private close(): void {
+    engine().navigation.dismissPopup();
+  }
+
+  /**
+   * Called when the popup is shown
+   */
+  public async show(): Promise<void> {
+    this.resize();
+  }
+
+  /**
+   * Refresh the charts while the simulation keeps running underneath
+   */
+  public update(time: Ticker): void {
+    this.sinceRefreshMs += time.deltaMS;
+    if (this.sinceRefreshMs < REFRESH_INTERVAL_MS) return;
+
+    this.sinceRefreshMs = 0;
+    this.renderCharts();
+  }
+
+  /**
+   * Resize handler
+   */
+  public resize(): void {
+    const width = engine().renderer.width;
+    const height = engine().renderer.height;
+
+    // Background fills the screen
+    this.bg.width = width;
+    this.bg.height = height;
+
+    // Center the panel, shrinking it on small screens
+    this.panel.x = width / 2;
+    this.panel.y = height / 2;
+    this.panel.scale.set(
+      Math.min(
+        1,
+        (width - 40) / this.panelBase.boxWidth,
+        (height - 40) / this.panelBase.boxHeight,
+      ),
+    );
+  }
+}
@@ -1,6 +1,6 @@
 /**
  * Map Picker Screen for MetroMap.io
- * Allows users to select a seed (0-999) and generate a map
+ * Allows users to select a seed (0-999), map size and map type and generate a map
  */
 
 import { animate } from "motion";
@@ -10,7 +10,8 @@ import { engine } from "@app/getEngine";
 import { MapGenerator } from "@core/game/MapGenerator";
 import { PixiMapRenderer as MapRenderer } from "@rendering/pixi/PixiMapRenderer";
 import { Footer } from "@rendering/components/Footer";
-import type { MapGrid } from "@core/game/models/MapGrid";
+import type { MapGrid, MapSize, MapType } from "@core/game/models/MapGrid";
+import { MAP_SIZE_PRESETS, DEFAULT_MAP_SIZE } from "@core/game/config";
 import { FlatButton } from "@rendering/components/FlatButton";
 import { Label } from "@rendering/components/Label";
 import { MetroBuildingScreen } from "./MetroBuildingScreen";
@@ -18,6 +19,23 @@ import { MetroBuildingScreen } from "./MetroBuildingScreen";
 const MIN_SEED = 0;
 const MAX_SEED = 999;
 
+const MAP_SIZES: { size: MapSize; text: string }[] = [
+  { size: "SMALL", text: "Small" },
+  { size: "MEDIUM", text: "Medium" },
+  { size: "LARGE", text: "Large" },
+  { size: "HUGE", text: "Huge" },
+];
+
+// Map type choices; null lets the seed decide
+const MAP_TYPE_CHOICES: { type: MapType | null; text: string }[] = [
+  { type: null, text: "Auto" },
+  { type: "RIVER", text: "River" },
+  { type: "ARCHIPELAGO", text: "Archipelago" },
+  { type: "COASTAL", text: "Coastal" },
+  { type: "LAKE", text: "Lake" },
+  { type: "VALLEY", text: "Valley" },
+];
+
 export class MapPickerScreen extends Container {
   /** Assets bundles required by this screen */
   public static assetBundles = ["main"];
@@ -36,6 +54,8 @@ export class MapPickerScreen extends Container {
   private showDefaultButton: FlatButton;
   private showBothButton: FlatButton;
   private startButton: FlatButton;
+  private sizeButtons: Map<MapSize, FlatButton> = new Map();
+  private typeButtons: Map<MapType | null, FlatButton> = new Map();
 
   private mapRenderer: MapRenderer;
   private mapContainer: Container;
@@ -43,7 +63,10 @@ export class MapPickerScreen extends Container {
   private footer: Footer;
 
   private currentSeed: number = 0;
+  private currentSize: MapSize = DEFAULT_MAP_SIZE;
+  private currentType: MapType | null = null; // null = picked by the seed
   private currentMap: MapGrid | null = null;
+  private screenSize = { width: 0, height: 0 }; // Last size passed to resize
 
   constructor() {
     super();
@@ -132,6 +155,37 @@ export class MapPickerScreen extends Container {
     this.generateButton.onPress.connect(() => this.generateMap());
     this.addChild(this.generateButton);
 
+    // Map size buttons
+    for (const { size, text } of MAP_SIZES) {
+      const { width, height } = MAP_SIZE_PRESETS[size];
+      const button = new FlatButton({
+        text: `${text} ${width}x${height}`,
+        width: 150,
+        height: 32,
+        fontSize: 16,
+        backgroundColor: 0x555555,
+      });
+      button.alpha = size === this.currentSize ? 1.0 : 0.6;
+      button.onPress.connect(() => this.selectSize(size));
+      this.addChild(button);
+      this.sizeButtons.set(size, button);
+    }
+
+    // Map type buttons
+    for (const { type, text } of MAP_TYPE_CHOICES) {
+      const button = new FlatButton({
+        text,
+        width: 120,
+        height: 32,
+        fontSize: 16,
+        backgroundColor: 0x3a6ea5,
+      });
+      button.alpha = type === this.currentType ? 1.0 : 0.6;
+      button.onPress.connect(() => this.selectType(type));
+      this.addChild(button);
+      this.typeButtons.set(type, button);
+    }
+
     // Visualization mode buttons
     this.showDefaultButton = new FlatButton({
       text: "Default",
@@ -238,10 +292,48 @@ export class MapPickerScreen extends Container {
   }
 
   /**
-   * Generate map based on current seed
+   * Pick the map size and regenerate the map at that size
+   */
+  private selectSize(size: MapSize): void {
+    this.currentSize = size;
+    this.updateSelectionButtons();
+
+    this.generateMap();
+    this.resize(this.screenSize.width, this.screenSize.height);
+  }
+
+  /**
+   * Pick the map type (null for the seed's own) and regenerate the map
+   */
+  private selectType(type: MapType | null): void {
+    this.currentType = type;
+    this.updateSelectionButtons();
+
+    this.generateMap();
+    this.resize(this.screenSize.width, this.screenSize.height);
+  }
+
+  /**
+   * Highlight the selected map size and type
+   */
+  private updateSelectionButtons(): void {
+    for (const [buttonSize, button] of this.sizeButtons) {
+      button.alpha = buttonSize === this.currentSize ? 1.0 : 0.6;
+    }
+    for (const [buttonType, button] of this.typeButtons) {
+      button.alpha = buttonType === this.currentType ? 1.0 : 0.6;
+    }
+  }
+
+  /**
+   * Generate map based on current seed, size and type
    */
   private generateMap(): void {
-    const generator = new MapGenerator(this.currentSeed);
+    const generator = new MapGenerator(
+      this.currentSeed,
+      this.currentSize,
+      this.currentType ?? undefined,
+    );
     this.currentMap = generator.generate();
     this.mapRenderer.renderMap(this.currentMap);
 
@@ -333,6 +425,7 @@ export class MapPickerScreen extends Container {
 
   /** Resize the screen */
   public resize(width: number, height: number) {
+    this.screenSize = { width, height };
     const centerX = width * 0.5;
 
     // Title at top
@@ -390,13 +483,40 @@ export class MapPickerScreen extends Container {
     this.generateButton.x = currentX + wGen / 2;
     this.generateButton.y = row1Y;
 
-    // --- Row 2: Type Info (Y=125) ---
+    // --- Row 2: Map Size & Type Info (Y=125) ---
     const rowInfoY = 125;
-    this.mapTypeLabel.x = centerX;
+    const wSize = 150;
+    const wType = 200; // Approx for "Type: ARCHIPELAGO"
+    const totalInfoWidth =
+      MAP_SIZES.length * (wSize + gap) - gap + groupGap + wType;
+    currentX = centerX - totalInfoWidth / 2;
+
+    for (const { size } of MAP_SIZES) {
+      const button = this.sizeButtons.get(size)!;
+      button.x = currentX + wSize / 2;
+      button.y = rowInfoY;
+      currentX += wSize + gap;
+    }
+    currentX += groupGap - gap;
+
+    this.mapTypeLabel.x = currentX + wType / 2;
     this.mapTypeLabel.y = rowInfoY;
 
-    // --- Row 3: Visualization & Start (Y=165) ---
-    const row2Y = 170;
+    // --- Row 3: Map Type (Y=165) ---
+    const rowTypeY = 165;
+    const wTypeButton = 120;
+    currentX =
+      centerX - (MAP_TYPE_CHOICES.length * (wTypeButton + gap) - gap) / 2;
+
+    for (const { type } of MAP_TYPE_CHOICES) {
+      const button = this.typeButtons.get(type)!;
+      button.x = currentX + wTypeButton / 2;
+      button.y = rowTypeY;
+      currentX += wTypeButton + gap;
+    }
+
+    // --- Row 4: Visualization & Start (Y=210) ---
+    const row2Y = 210;
 
     // Widths
     const wVizDef = 100;
@@ -444,7 +564,7 @@ export class MapPickerScreen extends Container {
     this.startButton.y = row2Y;
 
     // --- Map Display ---
-    const mapStartY = 210;
+    const mapStartY = 250;
     const mapBottomMargin = 10;
 
     const availableHeight = height - mapStartY - mapBottomMargin;
@@ -479,6 +599,8 @@ export class MapPickerScreen extends Container {
       this.generateButton,
       this.mapContainer,
       this.mapTypeLabel,
+      ...this.sizeButtons.values(),
+      ...this.typeButtons.values(),
       this.showDefaultButton,
       this.showResidentialButton,
       this.showOfficeButton,
@@ -495,6 +617,9 @@ export class MapPickerScreen extends Container {
       { alpha: 1 },
       { duration: 0.4, ease: "easeOut" },
     );
+
+    // Fading in reset the unselected size and type buttons
+    this.updateSelectionButtons();
   }
 
   /** Hide screen with animations */
@@ -515,6 +640,13 @@ export class MapPickerScreen extends Container {
     return this.currentMap;
   }
 
+  /**
+   * Get the selected map size
+   */
+  public getMapSize(): MapSize {
+    return this.currentSize;
+  }
+
   /**
    * Get the current seed
    */
@@ -4,46 +4,86 @@
  */
 
 import { animate } from "motion";
-import { Container, Graphics, FederatedPointerEvent } from "pixi.js";
+import { Container, Graphics } from "pixi.js";
 
 import { PixiMapRenderer as MapRenderer } from "@rendering/pixi/PixiMapRenderer";
 import { PixiMetroRenderer as MetroRenderer } from "@rendering/pixi/PixiMetroRenderer";
+import { PixiInputHandler } from "@rendering/pixi/PixiInputHandler";
 import {
-  TILE_SIZE,
-  STATION_BUILD_COST,
-  LINE_BUILD_COST_PER_SQUARE,
+  DEFAULT_TRAIN_TYPE,
+  DRAG_SNAP_RADIUS,
+  MAX_STATION_NAME_LENGTH,
+  TRAIN_TYPES,
 } from "@core/game/config";
 import type { MapGrid } from "@core/game/models/MapGrid";
 import type { Station } from "@core/game/models/Station";
-import { generateStationId } from "@core/game/models/Station";
-import type { Passenger } from "@core/game/models/Passenger";
 import type { GameState } from "@core/game/models/GameState";
+import type {
+  MetroLine,
+  LineBranch,
+  LineColor,
+  StopPattern,
+} from "@core/game/models/MetroLine";
 import {
-  createGameState,
-  addLine,
-  addStation,
-  saveGameState,
-  clearSavedGame,
-} from "@core/game/models/GameState";
-import type { MetroLine, LineColor } from "@core/game/models/MetroLine";
-import {
+  getLineStationIds,
   LINE_COLORS,
   LINE_COLOR_HEX,
-  generateLineId,
-  canAddStationToLine,
-  isLineLoop,
+  STOP_PATTERNS,
+  STOP_PATTERN_NAMES,
 } from "@core/game/models/MetroLine";
-import type { Train } from "@core/game/models/Train";
+import { TRAIN_TYPE_IDS, type TrainTypeId } from "@core/game/models/Train";
+import type { GameAction, ActionResult } from "@core/interfaces/types";
+import type { InputEvent } from "@core/interfaces/IInputHandler";
+import { GameController } from "@core/game/GameController";
 import { FlatButton } from "@rendering/components/FlatButton";
 import { Label } from "@rendering/components/Label";
 import { Footer } from "@rendering/components/Footer";
 import {
-  calculateLineLength,
+  calculateLineCost,
   formatMoney,
 } from "@core/game/simulation/Economics";
 
-type StationMode = "NONE" | "ADDING" | "REMOVING";
-type LineMode = "NONE" | "BUILDING";
+type StationMode = "NONE" | "ADDING" | "REMOVING" | "MOVING" | "RENAMING";
+type StationTool = Exclude<StationMode, "NONE">;
+type LineMode = "NONE" | "BUILDING" | "EDITING" | "BRANCHING" | "EXPRESS";
+
+const LINE_ITEM_HEIGHT = 85; // Line list row for a line, with its train type and pattern pickers
+const BRANCH_ITEM_HEIGHT = 40; // Line list row for a branch, under its line
+
+// Button text (idle and active) and instructions for each station tool
+const STATION_TOOLS: Record<
+  StationTool,
+  { text: string; activeText: string; instruction: string }
+> = {
+  ADDING: {
+    text: "+ Station",
+    activeText: "✓ Adding...",
+    instruction: "Click on grid vertices to place stations",
+  },
+  REMOVING: {
+    text: "- Station",
+    activeText: "✓ Removing...",
+    instruction: "Click on existing stations to remove them",
+  },
+  MOVING: {
+    text: "Move",
+    activeText: "✓ Moving...",
+    instruction: "Drag a station, or click it and then its new spot",
+  },
+  RENAMING: {
+    text: "Rename",
+    activeText: "✓ Renaming...",
+    instruction: "Click a station to rename it",
+  },
+};
+
+/**
+ * Describe a train type for the line list, e.g. "Metro $600 (30 pax)"
+ */
+function formatTrainType(trainType: TrainTypeId): string {
+  const { name, purchasePrice, capacity } = TRAIN_TYPES[trainType];
+  return `${name} ${formatMoney(purchasePrice).text} (${capacity} pax)`;
+}
 
 export class MetroBuildingScreen extends Container {
   /** Assets bundles required by this screen */
@@ -51,19 +91,27 @@ export class MetroBuildingScreen extends Container {
 
   private titleLabel: Label;
   private instructionLabel: Label;
+  private costLabel: Label;
   private moneyLabel: Label;
   private clockLabel: Label;
 
   private addStationButton: FlatButton;
   private removeStationButton: FlatButton;
+  private moveStationButton: FlatButton;
+  private renameStationButton: FlatButton;
   private addLineButton: FlatButton;
   private completeLineButton: FlatButton;
+  private branchButton: FlatButton;
+  private expressButton: FlatButton;
   private resetButton: FlatButton;
   private startSimulationButton: FlatButton;
+  private undoButton: FlatButton;
+  private redoButton: FlatButton;
   private showResidentialButton: FlatButton;
   private showOfficeButton: FlatButton;
   private showDefaultButton: FlatButton;
   private showBothButton: FlatButton;
+  private showDemandButton: FlatButton;
 
   private colorButtons: Map<LineColor, FlatButton> = new Map();
 
@@ -81,25 +129,36 @@ export class MetroBuildingScreen extends Container {
       plusButton: FlatButton;
     }
   > = new Map();
+  private purchaseTypes = new Map<string, TrainTypeId>(); // Line ID -> type of train its + buttons buy
+  private purchasePatterns = new Map<string, StopPattern>(); // Line ID -> stops the trains its + buttons buy call at
 
   private mapRenderer: MapRenderer;
   private metroRenderer: MetroRenderer;
   private mapContainer: Container;
   private mapBackground: Graphics;
+  private screenSize = { width: 0, height: 0 }; // Last size passed to resize, to re-layout for the map's size
+  private inputHandler: PixiInputHandler;
   private footer: Footer;
 
-  private gameState!: GameState;
+  // All game changes go through the controller; the screen only reads state
+  private controller!: GameController;
+  private unsubscribe: (() => void) | null = null;
   private stationMode: StationMode = "NONE";
   private lineMode: LineMode = "NONE";
-
-  // Line building state
-  private currentLine: {
-    color: LineColor | null;
-    stationIds: string[];
-  } = {
-    color: null,
-    stationIds: [],
-  };
+  private editingLineId: string | null = null;
+  private hoverStationId: string | undefined; // Station under the cursor while drawing a line
+  // Branch being drafted on the edited line: junction stop, then branch stops
+  private branchFromStationId: string | null = null;
+  private branchStationIds: string[] = [];
+  // Segment being dragged out: the station it starts at and the one it snaps to
+  private dragFromStationId: string | null = null;
+  private dragTargetStationId: string | null = null;
+  private dragVertex: { x: number; y: number } | null = null; // Pointer vertex while dragging a station to move it
+  private movingStationId: string | null = null; // Station picked to move by clicking
+  // Station being renamed and the name typed so far
+  private renamingStationId: string | null = null;
+  private nameDraft: string = "";
+  private isDemandOverlayVisible: boolean = false;
 
   constructor() {
     super();
@@ -124,6 +183,17 @@ export class MetroBuildingScreen extends Container {
     });
     this.addChild(this.instructionLabel);
 
+    // Build cost of the line being drafted, by terrain
+    this.costLabel = new Label({
+      text: "",
+      style: {
+        fontSize: 16,
+        fill: 0xf1c40f,
+      },
+    });
+    this.costLabel.visible = false;
+    this.addChild(this.costLabel);
+
     // Money display (before clock)
     this.moneyLabel = new Label({
       text: "$10000",
@@ -163,9 +233,12 @@ export class MetroBuildingScreen extends Container {
     this.metroRenderer = new MetroRenderer();
     this.mapContainer.addChild(this.metroRenderer);
 
-    // Make map interactive
-    this.mapContainer.eventMode = "static";
-    this.mapContainer.on("pointerdown", this.onMapClick.bind(this));
+    // Map input: clicks, hovers and drags, in map grid vertices
+    this.inputHandler = new PixiInputHandler(
+      this.mapContainer,
+      this.mapRenderer,
+    );
+    this.inputHandler.subscribe(this.onMapInput);
 
     // Line list container (left side panel)
     this.lineListContainer = new Container();
@@ -203,6 +276,31 @@ export class MetroBuildingScreen extends Container {
     );
     this.addChild(this.removeStationButton);
 
+    // Move and rename station buttons
+    this.moveStationButton = new FlatButton({
+      text: "Move",
+      width: 100,
+      height: 50,
+      fontSize: 18,
+      backgroundColor: 0x16a085,
+    });
+    this.moveStationButton.onPress.connect(() =>
+      this.toggleStationMode("MOVING"),
+    );
+    this.addChild(this.moveStationButton);
+
+    this.renameStationButton = new FlatButton({
+      text: "Rename",
+      width: 100,
+      height: 50,
+      fontSize: 18,
+      backgroundColor: 0xd35400,
+    });
+    this.renameStationButton.onPress.connect(() =>
+      this.toggleStationMode("RENAMING"),
+    );
+    this.addChild(this.renameStationButton);
+
     // Add line button
     this.addLineButton = new FlatButton({
       text: "+ Line",
@@ -222,10 +320,44 @@ export class MetroBuildingScreen extends Container {
       fontSize: 18,
       backgroundColor: 0x27ae60,
     });
-    this.completeLineButton.onPress.connect(() => this.completeLine());
+    this.completeLineButton.onPress.connect(() => {
+      if (this.lineMode === "EDITING") {
+        this.finishEditingLine();
+      } else if (this.lineMode === "BRANCHING") {
+        this.finishBranch();
+      } else if (this.lineMode === "EXPRESS") {
+        this.finishMarkingExpress();
+      } else {
+        this.completeLine();
+      }
+    });
     this.completeLineButton.visible = false;
     this.addChild(this.completeLineButton);
 
+    // Branch button (shown while editing a linear line)
+    this.branchButton = new FlatButton({
+      text: "Branch",
+      width: 100,
+      height: 50,
+      fontSize: 18,
+      backgroundColor: 0x8e44ad,
+    });
+    this.branchButton.onPress.connect(() => this.startBranch());
+    this.branchButton.visible = false;
+    this.addChild(this.branchButton);
+
+    // Express button (shown while editing a line)
+    this.expressButton = new FlatButton({
+      text: "Express",
+      width: 100,
+      height: 50,
+      fontSize: 18,
+      backgroundColor: 0xf39c12,
+    });
+    this.expressButton.onPress.connect(() => this.startMarkingExpress());
+    this.expressButton.visible = false;
+    this.addChild(this.expressButton);
+
     // Reset button (top right)
     this.resetButton = new FlatButton({
       text: "Reset",
@@ -248,6 +380,27 @@ export class MetroBuildingScreen extends Container {
     this.startSimulationButton.onPress.connect(() => this.startSimulation());
     this.addChild(this.startSimulationButton);
 
+    // Undo / Redo buttons
+    this.undoButton = new FlatButton({
+      text: "↶ Undo",
+      width: 100,
+      height: 50,
+      fontSize: 18,
+      backgroundColor: 0x7f8c8d,
+    });
+    this.undoButton.onPress.connect(() => this.undo());
+    this.addChild(this.undoButton);
+
+    this.redoButton = new FlatButton({
+      text: "↷ Redo",
+      width: 100,
+      height: 50,
+      fontSize: 18,
+      backgroundColor: 0x7f8c8d,
+    });
+    this.redoButton.onPress.connect(() => this.redo());
+    this.addChild(this.redoButton);
+
     // Footer
     this.footer = new Footer();
     this.addChild(this.footer);
@@ -303,6 +456,18 @@ export class MetroBuildingScreen extends Container {
       this.setVisualizationMode("BOTH"),
     );
     this.addChild(this.showBothButton);
+
+    // Unserved demand overlay toggle
+    this.showDemandButton = new FlatButton({
+      text: "Demand",
+      width: 100,
+      height: 40,
+      fontSize: 16,
+      backgroundColor: 0xaa33aa,
+    });
+    this.showDemandButton.alpha = 0.6;
+    this.showDemandButton.onPress.connect(() => this.toggleDemandOverlay());
+    this.addChild(this.showDemandButton);
   }
 
   /**
@@ -328,17 +493,14 @@ export class MetroBuildingScreen extends Container {
    * Start building a new line
    */
   private startBuildingLine(): void {
-    if (this.lineMode === "BUILDING") return;
+    if (this.lineMode !== "NONE") return;
 
     // Reset station modes
     this.stationMode = "NONE";
+    this.movingStationId = null;
+    this.renamingStationId = null;
     this.lineMode = "BUILDING";
-
-    // Reset current line
-    this.currentLine = {
-      color: null,
-      stationIds: [],
-    };
+    this.hoverStationId = undefined;
 
     // Show color picker
     this.showColorPicker();
@@ -347,7 +509,138 @@ export class MetroBuildingScreen extends Container {
     this.addLineButton.alpha = 0.6;
     this.addStationButton.alpha = 0.6;
     this.removeStationButton.alpha = 0.6;
+    this.moveStationButton.alpha = 0.6;
+    this.renameStationButton.alpha = 0.6;
     this.instructionLabel.text = "Select a color for your new line";
+    this.updateHistoryButtons();
+  }
+
+  /**
+   * Start editing the stops of an existing line
+   */
+  private startEditingLine(lineId: string): void {
+    if (this.lineMode !== "NONE") return;
+
+    this.stationMode = "NONE";
+    this.movingStationId = null;
+    this.renamingStationId = null;
+    this.lineMode = "EDITING";
+    this.editingLineId = lineId;
+
+    this.completeLineButton.textView = "Done";
+    this.completeLineButton.visible = true;
+    this.branchButton.visible = !this.controller
+      .getLineManager()
+      .getLineById(lineId)?.isLoop;
+    this.expressButton.visible = true;
+    this.addLineButton.alpha = 0.6;
+    this.addStationButton.alpha = 0.6;
+    this.removeStationButton.alpha = 0.6;
+    this.moveStationButton.alpha = 0.6;
+    this.renameStationButton.alpha = 0.6;
+    this.instructionLabel.text =
+      "Click a station to add it to the line, or a stop to remove it";
+
+    this.updateHistoryButtons();
+    this.updateLineList();
+  }
+
+  /**
+   * Start drafting a branch off the line being edited
+   */
+  private startBranch(): void {
+    if (this.lineMode !== "EDITING") return;
+
+    this.lineMode = "BRANCHING";
+    this.branchFromStationId = null;
+    this.branchStationIds = [];
+
+    this.branchButton.visible = false;
+    this.expressButton.visible = false;
+    this.instructionLabel.text =
+      "Click the stop where the branch splits off the line";
+  }
+
+  /**
+   * Build the drafted branch and go back to editing the line
+   */
+  private finishBranch(): void {
+    if (this.branchFromStationId && this.branchStationIds.length > 0) {
+      const result = this.dispatch({
+        type: "ADD_BRANCH",
+        payload: {
+          lineId: this.editingLineId,
+          fromStationId: this.branchFromStationId,
+          stationIds: this.branchStationIds,
+        },
+      });
+      if (!result.success) {
+        this.instructionLabel.text = `Error: ${result.error}`;
+        return;
+      }
+    }
+
+    this.lineMode = "EDITING";
+    this.branchFromStationId = null;
+    this.branchStationIds = [];
+
+    this.branchButton.visible = true;
+    this.expressButton.visible = true;
+    this.instructionLabel.text =
+      "Click a station to add it to the line, or a stop to remove it";
+    this.updateMetroRenderer();
+  }
+
+  /**
+   * Start picking the stops express trains call at on the line being edited
+   */
+  private startMarkingExpress(): void {
+    if (this.lineMode !== "EDITING") return;
+
+    this.lineMode = "EXPRESS";
+    this.branchButton.visible = false;
+    this.expressButton.visible = false;
+    this.instructionLabel.text =
+      "Click stops to mark or clear them as express stops";
+    this.updateMetroRenderer();
+  }
+
+  /**
+   * Go back to editing the line's stops
+   */
+  private finishMarkingExpress(): void {
+    const line = this.editingLineId
+      ? this.controller.getLineManager().getLineById(this.editingLineId)
+      : undefined;
+
+    this.lineMode = "EDITING";
+    this.branchButton.visible = !line?.isLoop;
+    this.expressButton.visible = true;
+    this.instructionLabel.text =
+      "Click a station to add it to the line, or a stop to remove it";
+    this.updateMetroRenderer();
+  }
+
+  /**
+   * Stop editing a line
+   */
+  private finishEditingLine(): void {
+    this.lineMode = "NONE";
+    this.editingLineId = null;
+
+    this.completeLineButton.visible = false;
+    this.completeLineButton.textView = "Complete";
+    this.branchButton.visible = false;
+    this.expressButton.visible = false;
+    this.addLineButton.alpha = 1.0;
+    this.addStationButton.alpha = 0.8;
+    this.removeStationButton.alpha = 0.8;
+    this.moveStationButton.alpha = 0.8;
+    this.renameStationButton.alpha = 0.8;
+    this.instructionLabel.text = "Click + or - to add or remove stations";
+
+    this.updateHistoryButtons();
+    this.updateLineList();
   }
 
   /**
@@ -377,7 +670,9 @@ export class MetroBuildingScreen extends Container {
    * Select a color for the current line
    */
   private selectLineColor(color: LineColor): void {
-    this.currentLine.color = color;
+    const result = this.dispatch({ type: "START_LINE", payload: { color } });
+    if (!result.success) return;
+
     this.hideColorPicker();
     this.completeLineButton.visible = true;
     this.instructionLabel.text =
@@ -388,45 +683,27 @@ export class MetroBuildingScreen extends Container {
    * Complete the current line
    */
   private completeLine(): void {
-    if (!this.currentLine.color || this.currentLine.stationIds.length < 2) {
-      console.log("Need at least 2 stations to complete a line");
-      return;
-    }
-
-    // Create the line with 1 initial train
-    const line: MetroLine = {
-      id: generateLineId(),
-      color: this.currentLine.color,
-      stationIds: this.currentLine.stationIds,
-      isLoop: isLineLoop(this.currentLine.stationIds),
-      trains: [],
-    };
-
-    // Add the first train to the line
-    const train = this.createTrainForLine(line, 1, 0);
-    line.trains.push(train);
-
-    // Add line with duplicate color guard
-    const success = addLine(this.gameState, line);
-    if (!success) {
-      this.instructionLabel.text = `Error: ${line.color} line already exists!`;
+    // Creates the line with 1 initial train
+    const result = this.dispatch({ type: "COMPLETE_LINE" });
+    if (!result.success) {
+      this.instructionLabel.text = `Error: ${result.error}`;
       return;
     }
 
+    const line = result.data as MetroLine;
     console.log(
       `Created ${line.color} line with ${line.stationIds.length} stations`,
     );
 
-    // Update money display
-    this.updateMoneyDisplay();
-
     // Reset state
     this.lineMode = "NONE";
-    this.currentLine = { color: null, stationIds: [] };
+    this.updateHistoryButtons();
     this.completeLineButton.visible = false;
     this.addLineButton.alpha = 1.0;
     this.addStationButton.alpha = 0.8;
     this.removeStationButton.alpha = 0.8;
+    this.moveStationButton.alpha = 0.8;
+    this.renameStationButton.alpha = 0.8;
     this.instructionLabel.text = "Click + or - to add or remove stations";
 
     // Redraw
@@ -438,7 +715,7 @@ export class MetroBuildingScreen extends Container {
    */
   private async resetGame(): Promise<void> {
     // Clear saved game
-    clearSavedGame();
+    this.dispatch({ type: "RESET_GAME" });
     console.log("Game reset - saved data cleared");
 
     // Import MapPickerScreen dynamically to avoid circular dependency
@@ -464,14 +741,15 @@ export class MetroBuildingScreen extends Container {
     const year = date.getFullYear();
     const hours = date.getHours().toString().padStart(2, "0");
     const minutes = date.getMinutes().toString().padStart(2, "0");
-    return `${day}/${month}/${year} ${hours}:${minutes}`;
+    const weekday = date.toLocaleDateString("en-GB", { weekday: "short" });
+    return `${weekday} ${day}/${month}/${year} ${hours}:${minutes}`;
   }
 
   /**
    * Update money display with color coding
    */
   private updateMoneyDisplay(): void {
-    const money = this.gameState?.money ?? 0;
+    const money = this.controller?.getState().money ?? 0;
     const { text, color } = formatMoney(money);
     this.moneyLabel.text = text;
     this.moneyLabel.style.fill = color;
@@ -481,8 +759,9 @@ export class MetroBuildingScreen extends Container {
    * Start the simulation
    */
   private async startSimulation(): Promise<void> {
-    // Save current state
-    saveGameState(this.gameState);
+    // Save current state; builder history does not carry into the simulation
+    this.controller.clearHistory();
+    this.controller.save();
 
     // Import and navigate to simulation screen
     const { MetroSimulationScreen } = await import("./MetroSimulationScreen");
@@ -503,9 +782,10 @@ export class MetroBuildingScreen extends Container {
    */
   public setMap(map: MapGrid): void {
     // Initialize game state
-    this.gameState = createGameState(map.seed, map);
+    this.setController(GameController.createNew(map.seed, map));
     this.mapRenderer.renderMap(map);
     this.drawMapBackground();
+    this.resize(this.screenSize.width, this.screenSize.height);
     this.updateMetroRenderer();
 
     // Update clock display
@@ -529,18 +809,16 @@ export class MetroBuildingScreen extends Container {
       );
       return;
     }
-    this.gameState = gameState;
 
     // Ensure simulationTime is valid
-    if (
-      !this.gameState.simulationTime ||
-      isNaN(this.gameState.simulationTime)
-    ) {
-      this.gameState.simulationTime = new Date("2025-01-01T08:00:00").getTime();
+    if (!gameState.simulationTime || isNaN(gameState.simulationTime)) {
+      gameState.simulationTime = new Date("2025-01-01T08:00:00").getTime();
     }
+    this.setController(GameController.fromState(gameState));
 
     this.mapRenderer.renderMap(gameState.map);
     this.drawMapBackground();
+    this.resize(this.screenSize.width, this.screenSize.height);
     this.updateMetroRenderer();
 
     // Update clock display
@@ -552,64 +830,178 @@ export class MetroBuildingScreen extends Container {
   }
 
   /**
-   * Toggle station mode (adding/removing)
+   * Take over a game controller and redraw whenever its state changes
    */
-  private toggleStationMode(mode: "ADDING" | "REMOVING"): void {
-    // If clicking the same mode, turn it off
-    if (this.stationMode === mode) {
-      this.stationMode = "NONE";
-      this.addStationButton.alpha = 0.8;
-      this.removeStationButton.alpha = 0.8;
-      this.addStationButton.textView = "+ Station";
-      this.removeStationButton.textView = "- Station";
-      this.instructionLabel.text = "Click + or - to add or remove stations";
-    } else {
-      this.stationMode = mode;
-
-      if (mode === "ADDING") {
-        this.addStationButton.alpha = 1.0;
-        this.removeStationButton.alpha = 0.8;
-        this.addStationButton.textView = "✓ Adding...";
-        this.removeStationButton.textView = "- Station";
-        this.instructionLabel.text = "Click on grid vertices to place stations";
-      } else {
-        this.addStationButton.alpha = 0.8;
-        this.removeStationButton.alpha = 1.0;
-        this.addStationButton.textView = "+ Station";
-        this.removeStationButton.textView = "✓ Removing...";
-        this.instructionLabel.text =
-          "Click on existing stations to remove them";
-      }
+  private setController(controller: GameController): void {
+    this.unsubscribe?.();
+    this.controller = controller;
+    this.unsubscribe = controller.subscribe(() => {
+      this.updateMoneyDisplay();
+      this.updateMetroRenderer();
+    });
+    this.updateHistoryButtons();
+  }
+
+  /**
+   * Dispatch an action to the game controller, logging rejected actions
+   */
+  private dispatch(action: GameAction): ActionResult {
+    const result = this.controller.dispatch(action);
+    if (!result.success) {
+      console.log(`${action.type} rejected: ${result.error}`);
     }
+    this.updateHistoryButtons();
+    return result;
   }
 
   /**
-   * Handle map click to add/remove stations or build lines
+   * Revert the last builder action, refunding or charging its cost
    */
-  private onMapClick(event: FederatedPointerEvent): void {
-    // Get click position relative to map renderer
-    const localPos = this.mapRenderer.toLocal(event.global);
+  private undo(): void {
+    if (this.lineMode !== "NONE") return;
+    this.dispatch({ type: "UNDO" });
+  }
 
-    // Convert to vertex coordinates
-    const vertexX = Math.round(localPos.x / TILE_SIZE);
-    const vertexY = Math.round(localPos.y / TILE_SIZE);
+  /**
+   * Re-apply the last undone builder action
+   */
+  private redo(): void {
+    if (this.lineMode !== "NONE") return;
+    this.dispatch({ type: "REDO" });
+  }
 
-    // Validate vertex is within bounds
-    if (
-      vertexX < 0 ||
-      vertexX > this.gameState.map.width ||
-      vertexY < 0 ||
-      vertexY > this.gameState.map.height
-    ) {
+  /**
+   * Enable the undo/redo buttons only when they would do something
+   */
+  private updateHistoryButtons(): void {
+    // History is only available outside line building and editing
+    const isIdle = this.lineMode === "NONE";
+    const canUndo = isIdle && this.controller.canUndo();
+    const canRedo = isIdle && this.controller.canRedo();
+
+    this.undoButton.alpha = canUndo ? 1.0 : 0.3;
+    this.undoButton.eventMode = canUndo ? "static" : "none";
+    this.redoButton.alpha = canRedo ? 1.0 : 0.3;
+    this.redoButton.eventMode = canRedo ? "static" : "none";
+  }
+
+  /**
+   * Keyboard shortcuts: Ctrl+Z to undo, Ctrl+Shift+Z (or Ctrl+Y) to redo,
+   * Escape to cancel a drag. While renaming a station, keys type its name.
+   */
+  private onKeyDown = (event: KeyboardEvent) => {
+    if (this.renamingStationId && !(event.ctrlKey || event.metaKey)) {
+      this.handleRenameKey(event);
       return;
     }
+    if (event.key === "Escape" && this.dragFromStationId) {
+      this.cancelDrag();
+      return;
+    }
+    if (!this.controller || !(event.ctrlKey || event.metaKey)) return;
+
+    const key = event.key.toLowerCase();
+    if (key === "z" && !event.shiftKey) {
+      event.preventDefault();
+      this.undo();
+    } else if ((key === "z" && event.shiftKey) || key === "y") {
+      event.preventDefault();
+      this.redo();
+    }
+  };
+
+  /**
+   * Read-only view of the controller's game state
+   */
+  private get gameState(): Readonly<GameState> {
+    return this.controller.getState();
+  }
+
+  /**
+   * Toggle a station tool (adding, removing, moving or renaming)
+   */
+  private toggleStationMode(mode: StationTool): void {
+    // If clicking the same mode, turn it off
+    this.stationMode = this.stationMode === mode ? "NONE" : mode;
+    this.movingStationId = null;
+    this.renamingStationId = null;
+
+    const buttons: Record<StationTool, FlatButton> = {
+      ADDING: this.addStationButton,
+      REMOVING: this.removeStationButton,
+      MOVING: this.moveStationButton,
+      RENAMING: this.renameStationButton,
+    };
+    for (const [tool, button] of Object.entries(buttons)) {
+      const isActive = tool === this.stationMode;
+      const { text, activeText } = STATION_TOOLS[tool as StationTool];
+      button.alpha = isActive ? 1.0 : 0.8;
+      button.textView = isActive ? activeText : text;
+    }
+
+    this.instructionLabel.text =
+      this.stationMode === "NONE"
+        ? "Click + or - to add or remove stations"
+        : STATION_TOOLS[this.stationMode].instruction;
+  }
+
+  /**
+   * Route map input from the input handler
+   */
+  private onMapInput = (event: InputEvent): void => {
+    if (!this.controller) return;
+
+    switch (event.type) {
+      case "click":
+        this.onMapClick(event);
+        break;
+      case "hover":
+        this.onMapHover(event);
+        break;
+      case "drag_start":
+        this.onDragStart(event);
+        break;
+      case "drag_move":
+        this.onDragMove(event);
+        break;
+      case "drag_end":
+        this.onDragEnd();
+        break;
+    }
+  };
+
+  /**
+   * Handle map click to add/remove stations or build lines
+   */
+  private onMapClick(event: InputEvent): void {
+    const vertex = this.getVertexAt(event);
+    if (!vertex) return;
+    const { vertexX, vertexY } = vertex;
 
     // Handle line building mode
-    if (this.lineMode === "BUILDING" && this.currentLine.color) {
+    if (this.controller.getLineManager().isBuilding()) {
       this.handleLineStationClick(vertexX, vertexY);
       return;
     }
 
+    // Handle line editing mode
+    if (this.lineMode === "EDITING") {
+      this.handleEditLineClick(vertexX, vertexY);
+      return;
+    }
+
+    // Handle branch drafting mode
+    if (this.lineMode === "BRANCHING") {
+      this.handleBranchClick(vertexX, vertexY);
+      return;
+    }
+
+    // Handle express stop marking mode
+    if (this.lineMode === "EXPRESS") {
+      this.handleExpressClick(vertexX, vertexY);
+      return;
+    }
+
     // Handle station modes
     if (this.stationMode === "NONE") return;
 
@@ -617,195 +1009,541 @@ export class MetroBuildingScreen extends Container {
       this.handleAddStation(vertexX, vertexY);
     } else if (this.stationMode === "REMOVING") {
       this.handleRemoveStation(vertexX, vertexY);
+    } else if (this.stationMode === "MOVING") {
+      this.handleMoveClick(vertexX, vertexY);
+    } else if (this.stationMode === "RENAMING") {
+      this.handleRenameClick(vertexX, vertexY);
     }
   }
 
   /**
-   * Handle clicking a station while building a line
+   * Price the segment to the station under the cursor while drawing a line
    */
-  private handleLineStationClick(vertexX: number, vertexY: number): void {
-    const stationId = generateStationId(vertexX, vertexY);
+  private onMapHover(event: InputEvent): void {
+    if (!this.controller.getLineManager().isBuilding()) return;
 
-    // Check if this vertex has a station
-    if (!this.hasStationAt(vertexX, vertexY)) {
-      console.log("No station at this vertex");
-      return;
-    }
+    const vertex = this.getVertexAt(event);
+    const stationId = vertex
+      ? this.getStationIdAt(vertex.vertexX, vertex.vertexY)
+      : undefined;
+    if (stationId === this.hoverStationId) return;
 
-    // Check if we can add this station to the line
-    if (!canAddStationToLine(this.currentLine.stationIds, stationId)) {
-      console.log("Station already in line (or would create invalid path)");
-      return;
-    }
+    this.hoverStationId = stationId;
+    this.updateMetroRenderer();
+  }
 
-    // Add station to line
-    this.currentLine.stationIds.push(stationId);
-    console.log(`Added station ${stationId} to line`);
+  /**
+   * Get the grid vertex under the pointer
+   * @returns The vertex, or null if it is outside the map
+   */
+  private getVertexAt(
+    event: InputEvent,
+  ): { vertexX: number; vertexY: number } | null {
+    if (!event.vertex) return null;
+    const { x: vertexX, y: vertexY } = event.vertex;
 
-    // Check if we closed a loop
+    // Validate vertex is within bounds
     if (
-      this.currentLine.stationIds.length > 2 &&
-      stationId === this.currentLine.stationIds[0]
+      vertexX < 0 ||
+      vertexX > this.gameState.map.width ||
+      vertexY < 0 ||
+      vertexY > this.gameState.map.height
     ) {
-      console.log("Loop closed!");
+      return null;
     }
+    return { vertexX, vertexY };
+  }
 
-    // Redraw to show progress
-    this.updateMetroRenderer();
+  /**
+   * Get the ID of the station at a vertex, if there is one
+   */
+  private getStationIdAt(vertexX: number, vertexY: number): string | undefined {
+    return this.controller.getStationManager().getStationAt(vertexX, vertexY)
+      ?.id;
   }
 
   /**
-   * Handle adding a station
+   * Start dragging a segment out of a station. Outside any line mode this
+   * starts a new line in the first free color; while building, drags extend
+   * the draft from its last stop; while editing, from either end of the
+   * trunk; while drafting a branch, from the junction or last branch stop.
    */
-  private handleAddStation(vertexX: number, vertexY: number): void {
-    // Check if station already exists at this vertex
-    if (this.hasStationAt(vertexX, vertexY)) {
-      console.log("Station already exists at this vertex");
+  private onDragStart(event: InputEvent): void {
+    const vertex = this.getVertexAt(event);
+    if (!vertex) return;
+    const stationId = this.getStationIdAt(vertex.vertexX, vertex.vertexY);
+    if (!stationId || this.lineMode === "EXPRESS") return;
+
+    const lineManager = this.controller.getLineManager();
+    const editingLine = this.editingLineId
+      ? lineManager.getLineById(this.editingLineId)
+      : undefined;
+
+    // Dragging a station with the move tool picks it up
+    if (this.lineMode === "NONE" && this.stationMode === "MOVING") {
+      this.movingStationId = null;
+      this.dragFromStationId = stationId;
+      this.onDragMove(event);
       return;
     }
 
-    // Check if any adjacent vertex has a station (minimum spacing rule)
-    if (this.hasAdjacentStation(vertexX, vertexY)) {
-      console.log("Cannot place station adjacent to another station");
-      return;
+    if (this.lineMode === "NONE") {
+      if (this.stationMode !== "NONE") return;
+
+      const color = lineManager.getAvailableColors()[0];
+      if (!color) {
+        this.instructionLabel.text = "All line colors are in use";
+        return;
+      }
+      this.startBuildingLine();
+      this.selectLineColor(color);
+    }
+
+    if (this.lineMode === "BUILDING") {
+      const stationIds = lineManager.getCurrentLine()?.stationIds;
+      if (!stationIds) return;
+
+      if (stationIds.length === 0) {
+        this.handleLineStationClick(vertex.vertexX, vertex.vertexY);
+      } else if (stationId !== stationIds[stationIds.length - 1]) {
+        return;
+      }
+    } else if (this.lineMode === "EDITING") {
+      const stationIds = editingLine?.stationIds ?? [];
+      if (
+        !editingLine ||
+        editingLine.isLoop ||
+        (stationId !== stationIds[0] &&
+          stationId !== stationIds[stationIds.length - 1])
+      ) {
+        return;
+      }
+    } else if (this.lineMode === "BRANCHING") {
+      if (!editingLine) return;
+
+      if (!this.branchFromStationId) {
+        this.handleBranchClick(vertex.vertexX, vertex.vertexY);
+        if (!this.branchFromStationId) return;
+      } else if (
+        stationId !==
+        (this.branchStationIds[this.branchStationIds.length - 1] ??
+          this.branchFromStationId)
+      ) {
+        return;
+      }
     }
 
-    // Add the station
-    this.addStationAtVertex(vertexX, vertexY);
+    this.dragFromStationId = stationId;
+    this.dragTargetStationId = null;
+    this.onDragMove(event);
   }
 
   /**
-   * Handle removing a station
+   * Snap the dragged segment to the nearest station and preview its track
    */
-  private handleRemoveStation(vertexX: number, vertexY: number): void {
-    const stationId = generateStationId(vertexX, vertexY);
-    const index = this.gameState.stations.findIndex((s) => s.id === stationId);
-    const station = this.gameState.stations[index];
+  private onDragMove(event: InputEvent): void {
+    if (!this.dragFromStationId || !event.vertex) return;
 
-    if (index === -1) {
-      console.log("No station at this vertex");
+    const from = this.gameState.stations.find(
+      (s) => s.id === this.dragFromStationId,
+    );
+    if (from && this.stationMode === "MOVING") {
+      this.dragVertex = event.vertex;
+      this.metroRenderer.renderDragPreview(from, null, event.vertex, 0xffffff);
       return;
     }
 
-    // Do not remove stations that are part of any existing line
-    const stationInUse = this.gameState.lines.some((line) =>
-      line.stationIds.includes(stationId),
-    );
-    if (stationInUse) {
-      console.log(
-        `Cannot remove station at vertex (${vertexX}, ${vertexY}): it is used by an existing line`,
-      );
+    const color = this.getDragColor();
+    if (!from || color === null) {
+      this.cancelDrag();
       return;
     }
 
-    const referencesStation = (passenger?: Passenger): boolean => {
-      if (!passenger) return false;
-      return (
-        passenger.sourceStationId === stationId ||
-        passenger.destinationStationId === stationId ||
-        passenger.currentStationId === stationId
-      );
-    };
+    const target = this.findSnapStation(event.vertex.x, event.vertex.y);
+    const targetId = target && target.id !== from.id ? target.id : null;
+    this.metroRenderer.renderDragPreview(
+      from,
+      targetId ? target : null,
+      event.vertex,
+      color,
+    );
 
-    // Clean up passengers referencing the station across game state, station queues, and trains
-    if (station) {
-      station.passengers = station.passengers.filter(
-        (p) => !referencesStation(p),
-      );
+    if (targetId === this.dragTargetStationId) return;
+    this.dragTargetStationId = targetId;
+
+    // Price the segment while building a new line
+    if (this.lineMode === "BUILDING") {
+      this.hoverStationId = targetId ?? undefined;
+      this.updateMetroRenderer();
     }
+  }
 
-    this.gameState.passengers = this.gameState.passengers.filter(
-      (p) => !referencesStation(p),
+  /**
+   * Commit the dragged segment if it snapped to a station
+   */
+  private onDragEnd(): void {
+    const fromId = this.dragFromStationId;
+    const target = this.gameState.stations.find(
+      (s) => s.id === this.dragTargetStationId,
     );
+    const dropVertex = this.dragVertex;
+    this.cancelDrag();
 
-    this.gameState.lines.forEach((line) => {
-      line.trains.forEach((train) => {
-        if (!train.passengers) return;
-        train.passengers = train.passengers.filter(
-          (p) => !referencesStation(p),
-        );
+    if (fromId && dropVertex && this.stationMode === "MOVING") {
+      this.moveStation(fromId, dropVertex.x, dropVertex.y);
+      return;
+    }
+    if (!fromId || !target) return;
+
+    if (this.lineMode === "BUILDING") {
+      this.handleLineStationClick(target.vertexX, target.vertexY);
+    } else if (this.lineMode === "BRANCHING") {
+      this.handleBranchClick(target.vertexX, target.vertexY);
+    } else if (this.lineMode === "EDITING" && this.editingLineId) {
+      const line = this.controller
+        .getLineManager()
+        .getLineById(this.editingLineId);
+      this.dispatch({
+        type: "EXTEND_LINE",
+        payload: {
+          lineId: this.editingLineId,
+          stationId: target.id,
+          end: line?.stationIds[0] === fromId ? "START" : "END",
+        },
       });
+    }
+  }
+
+  /**
+   * Drop the drag in progress and its preview
+   */
+  private cancelDrag(): void {
+    this.dragFromStationId = null;
+    this.dragTargetStationId = null;
+    this.dragVertex = null;
+    this.metroRenderer.clearDragPreview();
+
+    if (this.hoverStationId !== undefined) {
+      this.hoverStationId = undefined;
+      this.updateMetroRenderer();
+    }
+  }
+
+  /**
+   * Color of the line a drag is drawing
+   * @returns The color, or null if no line is being built or edited
+   */
+  private getDragColor(): number | null {
+    const line =
+      this.controller.getLineManager().getCurrentLine() ??
+      (this.editingLineId
+        ? this.controller.getLineManager().getLineById(this.editingLineId)
+        : undefined);
+    return line?.color ? LINE_COLOR_HEX[line.color] : null;
+  }
+
+  /**
+   * Find the station nearest a vertex, within the drag snap radius
+   */
+  private findSnapStation(vertexX: number, vertexY: number): Station | null {
+    let nearest: Station | null = null;
+    let nearestDistance = DRAG_SNAP_RADIUS;
+
+    for (const station of this.gameState.stations) {
+      const distance = Math.hypot(
+        station.vertexX - vertexX,
+        station.vertexY - vertexY,
+      );
+      if (distance <= nearestDistance) {
+        nearest = station;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+
+  /**
+   * Handle clicking a station while building a line
+   */
+  private handleLineStationClick(vertexX: number, vertexY: number): void {
+    const stationId = this.getStationIdAt(vertexX, vertexY);
+    if (!stationId) return;
+    const result = this.dispatch({
+      type: "ADD_STATION_TO_LINE",
+      payload: { stationId },
     });
+    if (!result.success) return;
 
-    // Remove the station and refund its cost
-    this.gameState.stations.splice(index, 1);
-    this.gameState.money += STATION_BUILD_COST;
-    console.log(`Removed station at vertex (${vertexX}, ${vertexY})`);
+    console.log(`Added station ${stationId} to line`);
 
-    // Save state after removal
-    saveGameState(this.gameState);
+    // Check if we closed a loop
+    const stationIds =
+      this.controller.getLineManager().getCurrentLine()?.stationIds ?? [];
+    if (stationIds.length > 2 && stationId === stationIds[0]) {
+      console.log("Loop closed!");
+    }
+  }
 
-    // Update money display
-    this.updateMoneyDisplay();
+  /**
+   * Handle clicking a station while editing a line: stops are removed,
+   * other stations are inserted where they cost the least to connect
+   */
+  private handleEditLineClick(vertexX: number, vertexY: number): void {
+    const lineManager = this.controller.getLineManager();
+    const line = this.editingLineId
+      ? lineManager.getLineById(this.editingLineId)
+      : undefined;
+    if (!line) {
+      this.finishEditingLine();
+      return;
+    }
 
-    // Redraw stations
-    this.updateMetroRenderer();
+    const stationId = this.getStationIdAt(vertexX, vertexY);
+    if (!stationId) return;
+    if (line.stationIds.includes(stationId)) {
+      this.dispatch({
+        type: "REMOVE_STATION_FROM_LINE",
+        payload: { lineId: line.id, stationId },
+      });
+      return;
+    }
+
+    this.dispatch({
+      type: "INSERT_STATION_IN_LINE",
+      payload: {
+        lineId: line.id,
+        stationId,
+        index: lineManager.findCheapestInsertIndex(line.id, stationId),
+      },
+    });
   }
 
   /**
-   * Check if a station exists at given vertex
+   * Handle clicking a stop while marking express stops: toggle its mark
    */
-  private hasStationAt(vertexX: number, vertexY: number): boolean {
-    const stationId = generateStationId(vertexX, vertexY);
-    return this.gameState.stations.some((s) => s.id === stationId);
+  private handleExpressClick(vertexX: number, vertexY: number): void {
+    const stationId = this.getStationIdAt(vertexX, vertexY);
+    if (!stationId || !this.editingLineId) return;
+
+    const result = this.dispatch({
+      type: "TOGGLE_EXPRESS_STOP",
+      payload: { lineId: this.editingLineId, stationId },
+    });
+    if (!result.success) {
+      this.instructionLabel.text = `Error: ${result.error}`;
+    }
   }
 
   /**
-   * Check if any adjacent vertex (4-connected) has a station
+   * Handle clicking a station while drafting a branch: the first click picks
+   * the junction on the trunk, later clicks add branch stops (clicking the
+   * last one again takes it back off)
    */
-  private hasAdjacentStation(vertexX: number, vertexY: number): boolean {
-    const adjacentVertices = [
-      { x: vertexX - 1, y: vertexY }, // left
-      { x: vertexX + 1, y: vertexY }, // right
-      { x: vertexX, y: vertexY - 1 }, // up
-      { x: vertexX, y: vertexY + 1 }, // down
-    ];
+  private handleBranchClick(vertexX: number, vertexY: number): void {
+    const line = this.editingLineId
+      ? this.controller.getLineManager().getLineById(this.editingLineId)
+      : undefined;
+    if (!line) {
+      this.finishEditingLine();
+      return;
+    }
+
+    const stationId = this.getStationIdAt(vertexX, vertexY);
+    if (!stationId) return;
+
+    if (!this.branchFromStationId) {
+      if (!line.stationIds.includes(stationId)) {
+        this.instructionLabel.text = "Pick a stop on the line's trunk";
+        return;
+      }
+      this.branchFromStationId = stationId;
+      this.instructionLabel.text =
+        "Click stations to add to the branch, then click Done";
+    } else if (
+      stationId === this.branchStationIds[this.branchStationIds.length - 1]
+    ) {
+      this.branchStationIds.pop();
+    } else if (
+      !getLineStationIds(line).includes(stationId) &&
+      !this.branchStationIds.includes(stationId)
+    ) {
+      this.branchStationIds.push(stationId);
+    } else {
+      return;
+    }
 
-    return adjacentVertices.some((v) => this.hasStationAt(v.x, v.y));
+    this.updateMetroRenderer();
   }
 
   /**
-   * Add a station at the given vertex
+   * Handle adding a station
    */
-  private addStationAtVertex(vertexX: number, vertexY: number): void {
-    const station: Station = {
-      id: generateStationId(vertexX, vertexY),
-      vertexX,
-      vertexY,
-      passengers: [],
-      label: "", // Will be assigned by addStation()
-    };
+  private handleAddStation(vertexX: number, vertexY: number): void {
+    const result = this.dispatch({
+      type: "PLACE_STATION",
+      payload: { vertexX, vertexY },
+    });
+    if (!result.success) return;
 
-    addStation(this.gameState, station);
+    const station = result.data as Station;
     console.log(
       `Added station ${station.id} (${station.label}) at vertex (${vertexX}, ${vertexY})`,
     );
+  }
 
-    // Update money display
-    this.updateMoneyDisplay();
+  /**
+   * Handle removing a station
+   */
+  private handleRemoveStation(vertexX: number, vertexY: number): void {
+    const stationId = this.getStationIdAt(vertexX, vertexY);
+    if (!stationId) return;
 
-    // Redraw stations
-    this.updateMetroRenderer();
+    const result = this.dispatch({
+      type: "REMOVE_STATION",
+      payload: { stationId },
+    });
+    if (!result.success) return;
+
+    console.log(`Removed station at vertex (${vertexX}, ${vertexY})`);
+  }
+
+  /**
+   * Handle clicking with the move tool: the first click picks a station,
+   * the second moves it (clicking the station again puts it down)
+   */
+  private handleMoveClick(vertexX: number, vertexY: number): void {
+    const stationId = this.getStationIdAt(vertexX, vertexY);
+
+    if (!this.movingStationId) {
+      if (!stationId) return;
+      this.movingStationId = stationId;
+      const label = this.controller
+        .getStationManager()
+        .getStationById(stationId)?.label;
+      this.instructionLabel.text = `Click where to move station ${label}`;
+      return;
+    }
+
+    const movingStationId = this.movingStationId;
+    this.movingStationId = null;
+    if (stationId !== movingStationId) {
+      this.moveStation(movingStationId, vertexX, vertexY);
+    } else {
+      this.instructionLabel.text = STATION_TOOLS.MOVING.instruction;
+    }
+  }
+
+  /**
+   * Move a station, showing why if it cannot go there
+   */
+  private moveStation(
+    stationId: string,
+    vertexX: number,
+    vertexY: number,
+  ): void {
+    const result = this.dispatch({
+      type: "MOVE_STATION",
+      payload: { stationId, vertexX, vertexY },
+    });
+    this.instructionLabel.text = result.success
+      ? STATION_TOOLS.MOVING.instruction
+      : `Error: ${result.error}`;
+  }
+
+  /**
+   * Handle clicking a station with the rename tool: start typing its new name
+   */
+  private handleRenameClick(vertexX: number, vertexY: number): void {
+    const station = this.controller
+      .getStationManager()
+      .getStationAt(vertexX, vertexY);
+    if (!station) return;
+
+    this.renamingStationId = station.id;
+    this.nameDraft = station.label;
+    this.updateRenamePrompt();
+  }
+
+  /**
+   * Edit the name being typed: Enter saves it, Escape cancels
+   */
+  private handleRenameKey(event: KeyboardEvent): void {
+    if (!this.renamingStationId) return;
+    event.preventDefault();
+
+    if (event.key === "Enter") {
+      const result = this.dispatch({
+        type: "RENAME_STATION",
+        payload: { stationId: this.renamingStationId, name: this.nameDraft },
+      });
+      if (!result.success) {
+        this.instructionLabel.text = `Error: ${result.error} - keep typing, or Esc to cancel`;
+        return;
+      }
+    } else if (event.key === "Escape") {
+      // Fall through to leave renaming
+    } else {
+      if (event.key === "Backspace") {
+        this.nameDraft = this.nameDraft.slice(0, -1);
+      } else if (
+        event.key.length === 1 &&
+        this.nameDraft.length < MAX_STATION_NAME_LENGTH
+      ) {
+        this.nameDraft += event.key;
+      }
+      this.updateRenamePrompt();
+      return;
+    }
+
+    this.renamingStationId = null;
+    this.instructionLabel.text = STATION_TOOLS.RENAMING.instruction;
+  }
+
+  /**
+   * Show the name typed so far in the instructions
+   */
+  private updateRenamePrompt(): void {
+    this.instructionLabel.text = `Name: ${this.nameDraft}_  (Enter to save, Esc to cancel)`;
   }
 
   /**
    * Update all metro visual elements
    */
   private updateMetroRenderer(): void {
-    this.metroRenderer.renderStations(this.gameState.stations);
+    const currentLine = this.controller.getLineManager().getCurrentLine();
+    const editingLine = this.editingLineId
+      ? this.controller.getLineManager().getLineById(this.editingLineId)
+      : undefined;
+    this.metroRenderer.renderStations(
+      this.gameState.stations,
+      this.lineMode === "EXPRESS" ? editingLine?.expressStationIds : undefined,
+    );
 
     // Prepare temp line if needed
     let tempLine: MetroLine | undefined;
-    if (
-      this.lineMode === "BUILDING" &&
-      this.currentLine.color &&
-      this.currentLine.stationIds.length > 0
+    if (currentLine?.color && currentLine.stationIds.length > 0) {
+      tempLine = {
+        id: "temp",
+        color: currentLine.color,
+        stationIds: currentLine.stationIds,
+        isLoop: false,
+        branches: [],
+        expressStationIds: [],
+        trains: [],
+      };
+    } else if (
+      this.lineMode === "BRANCHING" &&
+      editingLine &&
+      this.branchFromStationId
     ) {
+      // Preview the branch being drafted
       tempLine = {
         id: "temp",
-        color: this.currentLine.color,
-        stationIds: this.currentLine.stationIds,
+        color: editingLine.color,
+        stationIds: [this.branchFromStationId, ...this.branchStationIds],
         isLoop: false,
+        branches: [],
+        expressStationIds: [],
         trains: [],
       };
     }
@@ -815,11 +1553,62 @@ export class MetroBuildingScreen extends Container {
       this.gameState.stations,
       tempLine,
     );
+    this.updateCostPreview(tempLine);
+
+    this.renderDemandOverlay();
 
     // Update line list UI
     this.updateLineList();
   }
 
+  /**
+   * Show what the line or branch being drafted will cost to build, with
+   * bridges and tunnels broken out
+   */
+  private updateCostPreview(draft?: MetroLine): void {
+    const cost =
+      draft && draft.stationIds.length > 1
+        ? calculateLineCost(draft, this.gameState)
+        : null;
+    const preview = this.controller
+      .getLineManager()
+      .previewLineCost(this.hoverStationId);
+
+    this.costLabel.visible = cost !== null || (preview?.lineCost ?? 0) > 0;
+    if (!this.costLabel.visible) return;
+
+    const parts = [];
+    if (cost) {
+      parts.push(`Cost: ${formatMoney(cost.total).text}`);
+      parts.push(`track ${formatMoney(cost.landCost).text}`);
+      if (cost.bridgeSquares > 0) {
+        parts.push(
+          `bridges ${formatMoney(cost.bridgeCost).text} (${cost.bridgeSquares.toFixed(1)} sq)`,
+        );
+      }
+      if (cost.tunnelSquares > 0) {
+        parts.push(
+          `tunnels ${formatMoney(cost.tunnelCost).text} (${cost.tunnelSquares.toFixed(1)} sq)`,
+        );
+      }
+    }
+
+    // While drawing a line, also price the segment under the cursor
+    if (preview) {
+      if (preview.segmentCost > 0) {
+        parts.push(`next segment ${formatMoney(preview.segmentCost).text}`);
+      }
+      parts.push(`balance after ${formatMoney(preview.balanceAfter).text}`);
+      if (!preview.withinCreditLimit) {
+        parts.push("over credit limit!");
+      }
+    }
+
+    this.costLabel.text = parts.join(" | ");
+    this.costLabel.style.fill =
+      preview && !preview.withinCreditLimit ? 0xff4444 : 0xf1c40f;
+  }
+
   /**
    * Update the line list panel showing built lines with train controls
    */
@@ -828,12 +1617,18 @@ export class MetroBuildingScreen extends Container {
     this.lineItemsContainer.removeChildren();
     this.lineControls.clear();
 
-    const itemHeight = 60;
+    const controlsY = 27; // Center of the row's labels and buttons; the purchase pickers sit below
     const itemSpacing = 10;
     let yOffset = 10;
 
+    const trainManager = this.controller.getTrainManager();
     for (const line of this.gameState.lines) {
-      const trainCount = line.trains.length;
+      // The line's own controls run the trunk service; branches get rows below
+      const trainCount = trainManager.getServiceTrainCount(line.id);
+      const canRemoveTrain = trainManager.canRemoveTrain(line.id);
+      const trainType = this.getPurchaseType(line.id);
+      const canAddTrain = trainManager.canAddTrain(line.id, trainType);
+      const stopPattern = this.getPurchasePattern(line.id);
 
       // Create container for this line item
       const itemContainer = new Container();
@@ -841,9 +1636,9 @@ export class MetroBuildingScreen extends Container {
 
       // Background
       const bg = new Graphics();
-      bg.roundRect(0, 0, 250, itemHeight - 5, 8);
+      bg.roundRect(0, 0, 290, LINE_ITEM_HEIGHT - 5, 8);
       bg.fill(LINE_COLOR_HEX[line.color]);
-      bg.alpha = 0.3;
+      bg.alpha = line.id === this.editingLineId ? 0.7 : 0.3;
       itemContainer.addChild(bg);
 
       // Line label (e.g., "Red Line")
@@ -857,12 +1652,15 @@ export class MetroBuildingScreen extends Container {
       });
       lineLabel.anchor.set(0, 0.5);
       lineLabel.x = 10;
-      lineLabel.y = (itemHeight - 5) / 2 - 10;
+      lineLabel.y = controlsY - 10;
       itemContainer.addChild(lineLabel);
 
       // Train count label
       const countLabel = new Label({
-        text: `Trains: ${trainCount}`,
+        text:
+          line.branches.length > 0
+            ? `Trunk trains: ${trainCount}`
+            : `Trains: ${trainCount}`,
         style: {
           fontSize: 14,
           fill: 0xcccccc,
@@ -870,9 +1668,22 @@ export class MetroBuildingScreen extends Container {
       });
       countLabel.anchor.set(0, 0.5);
       countLabel.x = 10;
-      countLabel.y = (itemHeight - 5) / 2 + 10;
+      countLabel.y = controlsY + 10;
       itemContainer.addChild(countLabel);
 
+      // Edit button
+      const editButton = new FlatButton({
+        text: "✎",
+        width: 30,
+        height: 30,
+        fontSize: 18,
+        backgroundColor: 0x555555,
+      });
+      editButton.x = 125;
+      editButton.y = controlsY;
+      editButton.onPress.connect(() => this.startEditingLine(line.id));
+      itemContainer.addChild(editButton);
+
       // Delete button
       const deleteButton = new FlatButton({
         text: "🗑",
@@ -881,9 +1692,11 @@ export class MetroBuildingScreen extends Container {
         fontSize: 18,
         backgroundColor: 0x555555,
       });
-      deleteButton.x = 125;
-      deleteButton.y = (itemHeight - 5) / 2;
-      deleteButton.onPress.connect(() => this.deleteLine(line.id));
+      deleteButton.x = 170;
+      deleteButton.y = controlsY;
+      deleteButton.onPress.connect(() =>
+        this.dispatch({ type: "DELETE_LINE", payload: { lineId: line.id } }),
+      );
       itemContainer.addChild(deleteButton);
 
       // Minus button
@@ -894,11 +1707,13 @@ export class MetroBuildingScreen extends Container {
         fontSize: 20,
         backgroundColor: 0xe74c3c,
       });
-      minusButton.x = 170;
-      minusButton.y = (itemHeight - 5) / 2;
-      minusButton.onPress.connect(() => this.decreaseTrainCount(line.id));
-      minusButton.alpha = trainCount > 1 ? 1.0 : 0.3;
-      minusButton.eventMode = trainCount > 1 ? "static" : "none";
+      minusButton.x = 215;
+      minusButton.y = controlsY;
+      minusButton.onPress.connect(() =>
+        this.setTrainCount(line.id, trainCount - 1),
+      );
+      minusButton.alpha = canRemoveTrain ? 1.0 : 0.3;
+      minusButton.eventMode = canRemoveTrain ? "static" : "none";
       itemContainer.addChild(minusButton);
 
       // Plus button
@@ -909,13 +1724,47 @@ export class MetroBuildingScreen extends Container {
         fontSize: 20,
         backgroundColor: 0x27ae60,
       });
-      plusButton.x = 215;
-      plusButton.y = (itemHeight - 5) / 2;
-      plusButton.onPress.connect(() => this.increaseTrainCount(line.id));
-      plusButton.alpha = trainCount < 5 ? 1.0 : 0.3;
-      plusButton.eventMode = trainCount < 5 ? "static" : "none";
+      plusButton.x = 260;
+      plusButton.y = controlsY;
+      plusButton.onPress.connect(() =>
+        this.setTrainCount(
+          line.id,
+          trainCount + 1,
+          undefined,
+          trainType,
+          stopPattern,
+        ),
+      );
+      plusButton.alpha = canAddTrain ? 1.0 : 0.3;
+      plusButton.eventMode = canAddTrain ? "static" : "none";
       itemContainer.addChild(plusButton);
 
+      // Type of train the + buttons buy for this line and its branches
+      const typeButton = new FlatButton({
+        text: formatTrainType(trainType),
+        width: 180,
+        height: 22,
+        fontSize: 13,
+        backgroundColor: 0x555555,
+      });
+      typeButton.x = 100;
+      typeButton.y = controlsY + 41;
+      typeButton.onPress.connect(() => this.cyclePurchaseType(line.id));
+      itemContainer.addChild(typeButton);
+
+      // Stops those trains call at
+      const patternButton = new FlatButton({
+        text: STOP_PATTERN_NAMES[stopPattern],
+        width: 85,
+        height: 22,
+        fontSize: 13,
+        backgroundColor: 0x555555,
+      });
+      patternButton.x = 242.5;
+      patternButton.y = controlsY + 41;
+      patternButton.onPress.connect(() => this.cyclePurchasePattern(line.id));
+      itemContainer.addChild(patternButton);
+
       this.lineItemsContainer.addChild(itemContainer);
 
       // Store references for updates
@@ -927,179 +1776,170 @@ export class MetroBuildingScreen extends Container {
         plusButton,
       });
 
-      yOffset += itemHeight + itemSpacing;
+      yOffset += LINE_ITEM_HEIGHT + itemSpacing;
+
+      for (const branch of line.branches) {
+        const branchItem = this.createBranchItem(line, branch);
+        branchItem.y = yOffset;
+        this.lineItemsContainer.addChild(branchItem);
+        yOffset += BRANCH_ITEM_HEIGHT + itemSpacing;
+      }
     }
   }
 
   /**
-   * Delete a line and refund its build cost
+   * Create a line list row for one branch, with its own train controls
    */
-  private deleteLine(lineId: string): void {
-    const lineIndex = this.gameState.lines.findIndex((l) => l.id === lineId);
-    if (lineIndex === -1) return;
-
-    const line = this.gameState.lines[lineIndex];
-    const lineLength = calculateLineLength(line, this.gameState);
-    this.gameState.money += lineLength * LINE_BUILD_COST_PER_SQUARE;
-
-    const trainIds = new Set<string>();
-    const passengersToRemove = new Set<string>();
-
-    line.trains.forEach((train) => {
-      trainIds.add(train.id);
-      if (Array.isArray(train.passengers)) {
-        train.passengers.forEach((p) => passengersToRemove.add(p.id));
-        train.passengers = [];
-      }
+  private createBranchItem(line: MetroLine, branch: LineBranch): Container {
+    const trainManager = this.controller.getTrainManager();
+    const trainCount = trainManager.getServiceTrainCount(line.id, branch.id);
+    const canRemoveTrain = trainManager.canRemoveTrain(line.id, branch.id);
+    const canAddTrain = trainManager.canAddTrain(
+      line.id,
+      this.getPurchaseType(line.id),
+    );
+    const centerY = (BRANCH_ITEM_HEIGHT - 5) / 2;
+
+    const itemContainer = new Container();
+
+    // Background, indented under its line
+    const bg = new Graphics();
+    bg.roundRect(20, 0, 270, BRANCH_ITEM_HEIGHT - 5, 8);
+    bg.fill(LINE_COLOR_HEX[line.color]);
+    bg.alpha = 0.2;
+    itemContainer.addChild(bg);
+
+    // Branch label (e.g., "↳ to C 3") and its train count
+    const terminusId = branch.stationIds[branch.stationIds.length - 1];
+    const terminus = this.gameState.stations.find((s) => s.id === terminusId);
+    const branchLabel = new Label({
+      text: `↳ to ${terminus?.label ?? terminusId}: ${trainCount}`,
+      style: {
+        fontSize: 14,
+        fill: 0xffffff,
+      },
     });
-
-    const passengerUsesLine = (passenger: Passenger): boolean => {
-      if (!passenger) return false;
-
-      if (passenger.currentTrainId && trainIds.has(passenger.currentTrainId)) {
-        return true;
-      }
-
-      const currentStationId = passenger.currentStationId;
-      const nextWaypointId = passenger.path[passenger.nextWaypointIndex];
-      if (!currentStationId || !nextWaypointId) return false;
-
-      const fromIdx = line.stationIds.indexOf(currentStationId);
-      const toIdx = line.stationIds.indexOf(nextWaypointId);
-      return fromIdx !== -1 && toIdx !== -1;
-    };
-
-    // Remove passengers associated with this line
-    this.gameState.passengers = this.gameState.passengers.filter((p) => {
-      const shouldRemove = passengersToRemove.has(p.id) || passengerUsesLine(p);
-      if (shouldRemove) {
-        passengersToRemove.add(p.id);
-      }
-      return !shouldRemove;
+    branchLabel.anchor.set(0, 0.5);
+    branchLabel.x = 30;
+    branchLabel.y = centerY;
+    itemContainer.addChild(branchLabel);
+
+    // Delete branch button
+    const deleteButton = new FlatButton({
+      text: "🗑",
+      width: 30,
+      height: 30,
+      fontSize: 18,
+      backgroundColor: 0x555555,
     });
-
-    // Clean station queues
-    this.gameState.stations.forEach((station) => {
-      station.passengers = station.passengers.filter((p) => {
-        if (passengersToRemove.has(p.id) || passengerUsesLine(p)) {
-          passengersToRemove.add(p.id);
-          return false;
-        }
-        return true;
-      });
+    deleteButton.x = 170;
+    deleteButton.y = centerY;
+    deleteButton.onPress.connect(() =>
+      this.dispatch({
+        type: "REMOVE_BRANCH",
+        payload: { lineId: line.id, branchId: branch.id },
+      }),
+    );
+    itemContainer.addChild(deleteButton);
+
+    // Minus button
+    const minusButton = new FlatButton({
+      text: "-",
+      width: 30,
+      height: 30,
+      fontSize: 20,
+      backgroundColor: 0xe74c3c,
     });
+    minusButton.x = 215;
+    minusButton.y = centerY;
+    minusButton.onPress.connect(() =>
+      this.setTrainCount(line.id, trainCount - 1, branch.id),
+    );
+    minusButton.alpha = canRemoveTrain ? 1.0 : 0.3;
+    minusButton.eventMode = canRemoveTrain ? "static" : "none";
+    itemContainer.addChild(minusButton);
+
+    // Plus button
+    const plusButton = new FlatButton({
+      text: "+",
+      width: 30,
+      height: 30,
+      fontSize: 20,
+      backgroundColor: 0x27ae60,
+    });
+    plusButton.x = 260;
+    plusButton.y = centerY;
+    plusButton.onPress.connect(() =>
+      this.setTrainCount(
+        line.id,
+        trainCount + 1,
+        branch.id,
+        this.getPurchaseType(line.id),
+        this.getPurchasePattern(line.id),
+      ),
+    );
+    plusButton.alpha = canAddTrain ? 1.0 : 0.3;
+    plusButton.eventMode = canAddTrain ? "static" : "none";
+    itemContainer.addChild(plusButton);
 
-    // Remove line and its trains
-    this.gameState.lines.splice(lineIndex, 1);
-
-    saveGameState(this.gameState);
-    this.updateMoneyDisplay();
-    this.updateMetroRenderer();
+    return itemContainer;
   }
 
   /**
-   * Increase train count for a line
+   * Change the number of trains running a service of a line
+   * @param branchId Branch service to change; the trunk when unset
+   * @param trainType Type of train to buy for added trains
+   * @param stopPattern Stops added trains call at
    */
-  private increaseTrainCount(lineId: string): void {
-    const line = this.gameState.lines.find((l) => l.id === lineId);
-    if (!line || line.trains.length >= 5) return;
-
-    // Get train count for direction and delay calculation
-    const trainNumber = line.trains.length + 1; // 1-indexed for user display
-
-    // Odd trains (1, 3, 5) move forward (direction 1)
-    // Even trains (2, 4) move backward (direction -1)
-    const direction = trainNumber % 2 === 1 ? 1 : -1;
-
-    // Trains 3+ start with delay (half the line length)
-    const startStationIdx = this.calculateStartStationIdx(
-      trainNumber,
-      direction,
-      line.stationIds.length,
-    );
-
-    const train = this.createTrainForLine(line, direction, startStationIdx);
-    line.trains.push(train);
-
-    saveGameState(this.gameState);
-    this.updateMoneyDisplay();
-    this.updateLineList();
+  private setTrainCount(
+    lineId: string,
+    count: number,
+    branchId?: string,
+    trainType?: TrainTypeId,
+    stopPattern?: StopPattern,
+  ): void {
+    this.dispatch({
+      type: "SET_TRAIN_COUNT",
+      payload: { lineId, count, branchId, trainType, stopPattern },
+    });
   }
 
   /**
-   * Calculate starting station index for a train based on train number and direction
+   * Get the type of train the line list buys for a line
    */
-  private calculateStartStationIdx(
-    trainNumber: number,
-    direction: 1 | -1,
-    stationCount: number,
-  ): number {
-    if (trainNumber <= 2) {
-      return direction === 1 ? 0 : Math.max(stationCount - 1, 0);
-    }
-
-    if (direction === 1) {
-      return Math.floor(stationCount / 2);
-    } else {
-      return stationCount - 1 - Math.floor(stationCount / 2);
-    }
+  private getPurchaseType(lineId: string): TrainTypeId {
+    return this.purchaseTypes.get(lineId) ?? DEFAULT_TRAIN_TYPE;
   }
 
   /**
-   * Decrease train count for a line
+   * Switch a line to buying the next type of train in the catalog
    */
-  private decreaseTrainCount(lineId: string): void {
-    const line = this.gameState.lines.find((l) => l.id === lineId);
-    if (!line || line.trains.length <= 1) return;
-
-    // Remove the last train
-    line.trains.pop();
-
-    saveGameState(this.gameState);
-    this.updateMoneyDisplay();
+  private cyclePurchaseType(lineId: string): void {
+    const index = TRAIN_TYPE_IDS.indexOf(this.getPurchaseType(lineId));
+    this.purchaseTypes.set(
+      lineId,
+      TRAIN_TYPE_IDS[(index + 1) % TRAIN_TYPE_IDS.length],
+    );
     this.updateLineList();
   }
 
   /**
-   * Create a train for a line with specific configuration
+   * Get the stopping pattern the line list buys trains with for a line
    */
-  private createTrainForLine(
-    line: MetroLine,
-    direction: 1 | -1,
-    startStationIdx: number,
-  ): Train {
-    // Calculate target station index based on direction, handling edge cases
-    // Note: In edge cases where target equals current (e.g., backward train at station 0),
-    // the simulation will immediately trigger arrival logic, which then recalculates
-    // the next valid target based on line type and direction (see TrainMovement.ts)
-    let targetStationIdx: number;
-    if (direction === 1) {
-      // Moving forward - clamp to last station
-      targetStationIdx = Math.min(
-        startStationIdx + 1,
-        line.stationIds.length - 1,
-      );
-    } else {
-      // Moving backward - clamp to first station
-      targetStationIdx = Math.max(startStationIdx - 1, 0);
-    }
-
-    const train: Train = {
-      id: `train-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
-      lineId: line.id,
-      state: "MOVING" as const,
-      dwellRemaining: 0,
-      currentStationIdx: startStationIdx,
-      targetStationIdx,
-      progress: 0,
-      direction,
-      currentSegment: null,
-      totalLength: 0,
-      passengers: [],
-      capacity: 30, // TRAIN_MAX_CAPACITY
-    };
+  private getPurchasePattern(lineId: string): StopPattern {
+    return this.purchasePatterns.get(lineId) ?? "ALL_STOPS";
+  }
 
-    return train;
+  /**
+   * Switch a line to buying trains with the next stopping pattern
+   */
+  private cyclePurchasePattern(lineId: string): void {
+    const index = STOP_PATTERNS.indexOf(this.getPurchasePattern(lineId));
+    this.purchasePatterns.set(
+      lineId,
+      STOP_PATTERNS[(index + 1) % STOP_PATTERNS.length],
+    );
+    this.updateLineList();
   }
 
   /**
@@ -1124,6 +1964,28 @@ export class MetroBuildingScreen extends Container {
       mode === "BOTH" ? activeOpacity : inactiveOpacity;
   }
 
+  /**
+   * Show or hide station pairs that have demand but no route
+   */
+  private toggleDemandOverlay(): void {
+    this.isDemandOverlayVisible = !this.isDemandOverlayVisible;
+    this.showDemandButton.alpha = this.isDemandOverlayVisible ? 1.0 : 0.6;
+    this.renderDemandOverlay();
+  }
+
+  /**
+   * Redraw the unserved demand overlay for the current network
+   */
+  private renderDemandOverlay(): void {
+    const unserved = this.isDemandOverlayVisible
+      ? this.controller
+          .getSimulationEngine()
+          .getDemandModel()
+          .getUnservedDemand()
+      : [];
+    this.metroRenderer.renderDemandOverlay(unserved, this.gameState.stations);
+  }
+
   /**
    * Draw background/border for the map
    */
@@ -1166,6 +2028,7 @@ export class MetroBuildingScreen extends Container {
 
   /** Resize the screen */
   public resize(width: number, height: number) {
+    this.screenSize = { width, height };
     // Top Bar (Y=30)
     const topBarY = 30;
 
@@ -1179,6 +2042,11 @@ export class MetroBuildingScreen extends Container {
     this.instructionLabel.x = 20;
     this.instructionLabel.y = topBarY + 30;
 
+    // Draft line cost below the money display, right aligned
+    this.costLabel.anchor.set(1, 0.5);
+    this.costLabel.x = width - 20;
+    this.costLabel.y = topBarY + 30;
+
     // Reset button at top right
     this.resetButton.x = width - 20 - this.resetButton.width / 2;
     this.resetButton.y = topBarY;
@@ -1223,6 +2091,15 @@ export class MetroBuildingScreen extends Container {
 
     this.completeLineButton.x = leftX;
     this.completeLineButton.y = row1Y;
+    leftX +=
+      this.completeLineButton.width / 2 + gap + this.branchButton.width / 2;
+
+    this.branchButton.x = leftX;
+    this.branchButton.y = row1Y;
+    leftX += this.branchButton.width / 2 + gap + this.expressButton.width / 2;
+
+    this.expressButton.x = leftX;
+    this.expressButton.y = row1Y;
 
     // Right: Visualization controls
     let rightX = width - 20 - this.showBothButton.width / 2;
@@ -1248,6 +2125,11 @@ export class MetroBuildingScreen extends Container {
 
     this.showDefaultButton.x = rightX;
     this.showDefaultButton.y = row1Y;
+    rightX -=
+      this.showDefaultButton.width / 2 + gap + this.showDemandButton.width / 2;
+
+    this.showDemandButton.x = rightX;
+    this.showDemandButton.y = row1Y;
 
     // --- Controls Row 2 (Y=150) ---
     const row2Y = 150;
@@ -1265,10 +2147,38 @@ export class MetroBuildingScreen extends Container {
       width - 20 - this.startSimulationButton.width / 2;
     this.startSimulationButton.y = row2Y;
 
+    // Undo / Redo to the left of Start Simulation
+    this.redoButton.x =
+      this.startSimulationButton.x -
+      this.startSimulationButton.width / 2 -
+      gap -
+      this.redoButton.width / 2;
+    this.redoButton.y = row2Y;
+    this.undoButton.x =
+      this.redoButton.x -
+      this.redoButton.width / 2 -
+      gap -
+      this.undoButton.width / 2;
+    this.undoButton.y = row2Y;
+
+    // Move / Rename station tools to the left of Undo
+    this.renameStationButton.x =
+      this.undoButton.x -
+      this.undoButton.width / 2 -
+      gap * 2 -
+      this.renameStationButton.width / 2;
+    this.renameStationButton.y = row2Y;
+    this.moveStationButton.x =
+      this.renameStationButton.x -
+      this.renameStationButton.width / 2 -
+      gap -
+      this.moveStationButton.width / 2;
+    this.moveStationButton.y = row2Y;
+
     // Line list panel (left side, below controls)
     const lineListX = 20;
     const lineListY = 200;
-    const lineListWidth = 270;
+    const lineListWidth = 310;
     const lineListMaxHeight = height - lineListY - 10;
 
     this.lineListContainer.x = lineListX;
@@ -1276,10 +2186,16 @@ export class MetroBuildingScreen extends Container {
 
     // Draw background for line list
     this.lineListBackground.clear();
-    if (this.gameState && this.gameState.lines.length > 0) {
+    if (this.controller && this.gameState.lines.length > 0) {
+      const branchCount = this.gameState.lines.reduce(
+        (count, line) => count + line.branches.length,
+        0,
+      );
       const lineListHeight = Math.min(
         lineListMaxHeight,
-        this.gameState.lines.length * 70 + 20,
+        this.gameState.lines.length * (LINE_ITEM_HEIGHT + 10) +
+          branchCount * 50 +
+          20,
       );
       this.lineListBackground.roundRect(0, 0, lineListWidth, lineListHeight, 8);
       this.lineListBackground.fill({ color: 0x222222, alpha: 0.8 });
@@ -1312,6 +2228,9 @@ export class MetroBuildingScreen extends Container {
 
   /** Show screen with animations */
   public async show(): Promise<void> {
+    globalThis.addEventListener("keydown", this.onKeyDown);
+    this.inputHandler.enable();
+
     // Fade in all elements
     const elementsToAnimate = [
       this.titleLabel,
@@ -1320,13 +2239,18 @@ export class MetroBuildingScreen extends Container {
       this.clockLabel,
       this.addStationButton,
       this.removeStationButton,
+      this.moveStationButton,
+      this.renameStationButton,
       this.addLineButton,
       this.resetButton,
       this.startSimulationButton,
+      this.undoButton,
+      this.redoButton,
       this.showDefaultButton,
       this.showResidentialButton,
       this.showOfficeButton,
       this.showBothButton,
+      this.showDemandButton,
       this.mapContainer,
       this.lineListContainer,
     ];
@@ -1340,11 +2264,18 @@ export class MetroBuildingScreen extends Container {
       { alpha: 1 },
       { duration: 0.4, ease: "easeOut" },
     );
+
+    // The fade-in resets the disabled look of the history buttons
+    if (this.controller) this.updateHistoryButtons();
   }
 
   /** Hide screen with animations */
   public async hide() {
-    // Navigation handles cleanup
+    globalThis.removeEventListener("keydown", this.onKeyDown);
+    this.inputHandler.disable();
+    this.cancelDrag();
+    this.unsubscribe?.();
+    this.unsubscribe = null;
   }
 
   /** Handle window blur */
@@ -1356,7 +2287,7 @@ export class MetroBuildingScreen extends Container {
   /**
    * Get the current game state
    */
-  public getGameState(): GameState {
+  public getGameState(): Readonly<GameState> {
     return this.gameState;
   }
 }
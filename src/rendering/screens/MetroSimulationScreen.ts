@@ -8,31 +8,17 @@ import { animate } from "motion";
 
 import { PixiMapRenderer as MapRenderer } from "@rendering/pixi/PixiMapRenderer";
 import { PixiMetroRenderer as MetroRenderer } from "@rendering/pixi/PixiMetroRenderer";
-import {
-  TILE_SIZE,
-  BASE_GAME_SPEED,
-  GAME_START_TIME_ISO,
-} from "@core/game/config";
+import { TILE_SIZE, GAME_START_TIME_ISO } from "@core/game/config";
 import type { GameState } from "@core/game/models/GameState";
 import { saveGameState } from "@core/game/models/GameState";
 import type { Station } from "@core/game/models/Station";
+import type { SimulationSpeed } from "@core/interfaces/types";
 import { FlatButton } from "@rendering/components/FlatButton";
 import { Label } from "@rendering/components/Label";
 import { Footer } from "@rendering/components/Footer";
-import { updatePassengerSpawning } from "@core/game/simulation/PassengerSpawner";
-import {
-  initializeTrains,
-  updateTrains,
-} from "@core/game/simulation/TrainMovement";
+import { SimulationEngine } from "@core/game/simulation/SimulationEngine";
 import { formatMoney } from "@core/game/simulation/Economics";
 
-// Time progression speeds (milliseconds per real second)
-const SPEED_1X = BASE_GAME_SPEED;
-const SPEED_2X = SPEED_1X * 2;
-const SPEED_4X = SPEED_1X * 4;
-
-type SimulationSpeed = "1x" | "2x" | "4x";
-
 export class MetroSimulationScreen extends Container {
   /** Assets bundles required by this screen */
   public static assetBundles = ["main"];
@@ -42,6 +28,8 @@ export class MetroSimulationScreen extends Container {
   private clockLabel: Label;
 
   private stopButton: FlatButton;
+  private statsButton: FlatButton;
+  private linesButton: FlatButton;
   private pauseToggleButton: FlatButton;
   private speed1xButton: FlatButton;
   private speed2xButton: FlatButton;
@@ -51,13 +39,13 @@ export class MetroSimulationScreen extends Container {
   private metroRenderer: MetroRenderer;
   private mapContainer: Container;
   private mapBackground: Graphics;
+  private screenSize = { width: 0, height: 0 }; // Last size passed to resize, to re-layout for the map's size
   private footer: Footer;
 
   private gameState!: GameState;
+  private simulationEngine!: SimulationEngine;
   private isRunning: boolean = false;
-  private isPaused: boolean = false;
-  private currentSpeed: SimulationSpeed = "1x";
-  private lastUpdateTime: number = 0;
+  private isGameOverShown: boolean = false;
 
   constructor() {
     super();
@@ -106,6 +94,28 @@ export class MetroSimulationScreen extends Container {
     this.stopButton.onPress.connect(() => this.stopSimulation());
     this.addChild(this.stopButton);
 
+    // Statistics dashboard button
+    this.statsButton = new FlatButton({
+      text: "Statistics",
+      width: 120,
+      height: 50,
+      fontSize: 18,
+      backgroundColor: 0x8e44ad,
+    });
+    this.statsButton.onPress.connect(() => this.showStatistics());
+    this.addChild(this.statsButton);
+
+    // Line headways button
+    this.linesButton = new FlatButton({
+      text: "Lines",
+      width: 100,
+      height: 50,
+      fontSize: 18,
+      backgroundColor: 0x16a085,
+    });
+    this.linesButton.onPress.connect(() => this.showLineDetails());
+    this.addChild(this.linesButton);
+
     // Pause/Resume simulation button
     this.pauseToggleButton = new FlatButton({
       text: "⏸",
@@ -125,7 +135,7 @@ export class MetroSimulationScreen extends Container {
       fontSize: 18,
       backgroundColor: 0x4a90e2,
     });
-    this.speed1xButton.onPress.connect(() => this.setSpeed("1x"));
+    this.speed1xButton.onPress.connect(() => this.setSpeed(1));
     this.addChild(this.speed1xButton);
 
     this.speed2xButton = new FlatButton({
@@ -135,7 +145,7 @@ export class MetroSimulationScreen extends Container {
       fontSize: 18,
       backgroundColor: 0x555555,
     });
-    this.speed2xButton.onPress.connect(() => this.setSpeed("2x"));
+    this.speed2xButton.onPress.connect(() => this.setSpeed(2));
     this.addChild(this.speed2xButton);
 
     this.speed4xButton = new FlatButton({
@@ -145,7 +155,7 @@ export class MetroSimulationScreen extends Container {
       fontSize: 18,
       backgroundColor: 0x555555,
     });
-    this.speed4xButton.onPress.connect(() => this.setSpeed("4x"));
+    this.speed4xButton.onPress.connect(() => this.setSpeed(4));
     this.addChild(this.speed4xButton);
 
     // Map display container
@@ -184,7 +194,8 @@ export class MetroSimulationScreen extends Container {
     const year = date.getFullYear();
     const hours = date.getHours().toString().padStart(2, "0");
     const minutes = date.getMinutes().toString().padStart(2, "0");
-    return `${day}/${month}/${year} ${hours}:${minutes}`;
+    const weekday = date.toLocaleDateString("en-GB", { weekday: "short" });
+    return `${weekday} ${day}/${month}/${year} ${hours}:${minutes}`;
   }
 
   /**
@@ -201,25 +212,25 @@ export class MetroSimulationScreen extends Container {
    * Set simulation speed
    */
   private setSpeed(speed: SimulationSpeed): void {
-    this.currentSpeed = speed;
+    this.simulationEngine.setSpeed(speed);
 
     // Update button visual states
     // Use tint to change color (0xffffff = original, darker = inactive)
-    if (speed === "1x") {
+    if (speed === 1) {
       this.speed1xButton.alpha = 1.0;
       (this.speed1xButton.defaultView as Graphics).tint = 0x4a90e2; // Blue
       this.speed2xButton.alpha = 0.7;
       (this.speed2xButton.defaultView as Graphics).tint = 0x888888; // Gray
       this.speed4xButton.alpha = 0.7;
       (this.speed4xButton.defaultView as Graphics).tint = 0x888888; // Gray
-    } else if (speed === "2x") {
+    } else if (speed === 2) {
       this.speed1xButton.alpha = 0.7;
       (this.speed1xButton.defaultView as Graphics).tint = 0x888888; // Gray
       this.speed2xButton.alpha = 1.0;
       (this.speed2xButton.defaultView as Graphics).tint = 0x4a90e2; // Blue
       this.speed4xButton.alpha = 0.7;
       (this.speed4xButton.defaultView as Graphics).tint = 0x888888; // Gray
-    } else if (speed === "4x") {
+    } else if (speed === 4) {
       this.speed1xButton.alpha = 0.7;
       (this.speed1xButton.defaultView as Graphics).tint = 0x888888; // Gray
       this.speed2xButton.alpha = 0.7;
@@ -267,9 +278,12 @@ export class MetroSimulationScreen extends Container {
    * Toggle simulation pause state
    */
   private togglePause(): void {
-    this.isPaused = !this.isPaused;
+    if (this.simulationEngine.isGameOver()) return;
+
+    const isPaused = !this.simulationEngine.isPaused();
+    this.simulationEngine.setPaused(isPaused);
 
-    if (this.isPaused) {
+    if (isPaused) {
       this.pauseToggleButton.text = "▶";
       (this.pauseToggleButton.defaultView as Graphics).tint = 0x27ae60; // Green for Resume
     } else {
@@ -281,45 +295,11 @@ export class MetroSimulationScreen extends Container {
   /**
    * Update simulation - called every frame
    */
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  private updateSimulation = (_ticker: Ticker): void => {
+  private updateSimulation = (ticker: Ticker): void => {
     if (!this.isRunning) return;
 
-    const currentTime = performance.now();
-
-    if (this.isPaused) {
-      this.lastUpdateTime = currentTime;
-      return;
-    }
-
-    const deltaSeconds = (currentTime - this.lastUpdateTime) / 1000;
-    this.lastUpdateTime = currentTime;
-
-    // Calculate time progression based on speed
-    let speedMultiplier: number; // For game clock
-    let movementMultiplier: number; // For train movement
-
-    switch (this.currentSpeed) {
-      case "1x":
-        speedMultiplier = SPEED_1X;
-        movementMultiplier = 1;
-        break;
-      case "2x":
-        speedMultiplier = SPEED_2X;
-        movementMultiplier = 2;
-        break;
-      case "4x":
-        speedMultiplier = SPEED_4X;
-        movementMultiplier = 4;
-        break;
-      default:
-        speedMultiplier = SPEED_1X;
-        movementMultiplier = 1;
-    }
-
-    // Update simulation time
-    const timeIncrement = deltaSeconds * speedMultiplier;
-    this.gameState.simulationTime += timeIncrement;
+    // Run fixed-timestep simulation ticks for the elapsed real time
+    this.simulationEngine.advance(ticker.deltaMS);
 
     // Update clock display
     const currentDate = new Date(this.gameState.simulationTime);
@@ -328,32 +308,46 @@ export class MetroSimulationScreen extends Container {
     // Update money display
     this.updateMoneyDisplay();
 
-    // Update passenger spawning
-    // The current implementation of spawner takes 'deltaSeconds' and multiplies by rate.
-    // If rate is "per second", then passing real delta * multiplier simulates acceleration.
-    updatePassengerSpawning(this.gameState, deltaSeconds * speedMultiplier);
-
-    // Update trains
-    updateTrains(this.gameState, deltaSeconds * movementMultiplier);
     this.updateMetroRenderer(true); // Only update trains
+
+    if (this.simulationEngine.isGameOver() && !this.isGameOverShown) {
+      this.showGameOver();
+    }
   };
 
+  /**
+   * Show why the game ended and lock the simulation controls
+   */
+  private showGameOver(): void {
+    this.isGameOverShown = true;
+
+    const gameOver = this.gameState.gameOver;
+    const station = this.gameState.stations.find(
+      (s) => s.id === gameOver?.stationId,
+    );
+    this.titleLabel.text = station
+      ? `Game Over - Station ${station.label} overcrowded`
+      : "Game Over";
+    this.titleLabel.style.fill = 0xe74c3c;
+
+    this.pauseToggleButton.text = "▶";
+    this.pauseToggleButton.alpha = 0.5;
+  }
+
   /**
    * Start the simulation
    */
   public startSimulation(): void {
     this.isRunning = true;
-    this.isPaused = false;
+    this.simulationEngine.setPaused(false);
     this.pauseToggleButton.text = "⏸";
     (this.pauseToggleButton.defaultView as Graphics).tint = 0xf39c12;
 
-    this.lastUpdateTime = performance.now();
-
     // Initialize trains if needed
-    initializeTrains(this.gameState);
+    this.simulationEngine.initialize();
 
     // Initialize button states
-    this.setSpeed(this.currentSpeed);
+    this.setSpeed(this.simulationEngine.getSpeed());
   }
 
   /**
@@ -372,6 +366,11 @@ export class MetroSimulationScreen extends Container {
       this.metroRenderer.renderStationLabels(this.gameState.stations);
     }
 
+    this.metroRenderer.renderStationCrowding(
+      this.gameState.stations,
+      this.gameState.simulationTime,
+    );
+
     this.metroRenderer.renderTrains(
       this.gameState.lines,
       this.gameState.stations,
@@ -383,6 +382,8 @@ export class MetroSimulationScreen extends Container {
    */
   public setGameState(gameState: GameState): void {
     this.gameState = gameState;
+    this.simulationEngine = new SimulationEngine(gameState);
+    this.isGameOverShown = false;
 
     // Ensure simulationTime is valid
     if (
@@ -394,6 +395,7 @@ export class MetroSimulationScreen extends Container {
 
     this.mapRenderer.renderMap(gameState.map);
     this.drawMapBackground();
+    this.resize(this.screenSize.width, this.screenSize.height);
     this.updateMetroRenderer(false); // Draw everything
 
     // Set up station click handler
@@ -433,10 +435,38 @@ export class MetroSimulationScreen extends Container {
     engine().navigation.presentPopup(StationDetailPopup);
   }
 
+  /**
+   * Show statistics dashboard popup
+   */
+  private async showStatistics(): Promise<void> {
+    const { StatisticsPopup, setStatisticsForPopup } =
+      await import("../popups/StatisticsPopup");
+    const { engine } = await import("@app/getEngine");
+
+    setStatisticsForPopup(
+      this.simulationEngine.getStatistics(),
+      this.gameState.lines,
+    );
+    engine().navigation.presentPopup(StatisticsPopup);
+  }
+
+  /**
+   * Show line detail popup with each train's headway
+   */
+  private async showLineDetails(): Promise<void> {
+    const { LineDetailPopup, setLinesForPopup } =
+      await import("../popups/LineDetailPopup");
+    const { engine } = await import("@app/getEngine");
+
+    setLinesForPopup(this.gameState);
+    engine().navigation.presentPopup(LineDetailPopup);
+  }
+
   /**
    * Layout UI elements
    */
   public resize(width: number, height: number): void {
+    this.screenSize = { width, height };
     const centerX = width * 0.5;
 
     // Top Bar (Y=30)
@@ -466,6 +496,22 @@ export class MetroSimulationScreen extends Container {
     this.stopButton.x = 20 + this.stopButton.width / 2;
     this.stopButton.y = controlsY;
 
+    // Statistics Button (right of Stop)
+    this.statsButton.x =
+      this.stopButton.x +
+      this.stopButton.width / 2 +
+      10 +
+      this.statsButton.width / 2;
+    this.statsButton.y = controlsY;
+
+    // Lines Button (right of Statistics)
+    this.linesButton.x =
+      this.statsButton.x +
+      this.statsButton.width / 2 +
+      10 +
+      this.linesButton.width / 2;
+    this.linesButton.y = controlsY;
+
     // Speed buttons (Right)
     const gap = 10;
 
@@ -524,6 +570,8 @@ export class MetroSimulationScreen extends Container {
       this.moneyLabel,
       this.clockLabel,
       this.stopButton,
+      this.statsButton,
+      this.linesButton,
       this.pauseToggleButton,
       this.speed1xButton,
       this.speed2xButton,
@@ -543,9 +591,9 @@ export class MetroSimulationScreen extends Container {
   }
 
   /** Called by navigation system every frame */
-  public update(): void {
+  public update(time: Ticker): void {
     // Delegate to our update simulation method
-    this.updateSimulation(Ticker.shared);
+    this.updateSimulation(time);
   }
 
   /** Called when screen is removed */